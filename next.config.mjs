@@ -1,4 +1,11 @@
 const nextConfig = {
+    experimental: {
+        serverActions: {
+            // Photos are uploaded through server actions: a claim can carry MAX_CLAIM_PHOTOS (3) of
+            // up to MAX_IMAGE_SIZE (5MB) each, plus its form fields (src/lib/types.ts)
+            bodySizeLimit: "16mb",
+        },
+    },
     images: {
         remotePatterns: [
             {
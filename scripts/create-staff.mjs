@@ -0,0 +1,56 @@
+// Creates (or resets the password of) a staff account for the admin dashboard.
+// Usage: npm run staff:create -- <username> <password> <role> [display name]
+
+import { randomBytes, scryptSync } from "crypto";
+import { createClient } from "@supabase/supabase-js";
+
+const ROLES = ["viewer", "moderator", "custodian", "super_admin"];
+
+const [username, password, role, ...nameParts] = process.argv.slice(2);
+
+if (!username || !password || !role) {
+    console.error("Usage: npm run staff:create -- <username> <password> <role> [display name]");
+    process.exit(1);
+}
+
+if (!ROLES.includes(role)) {
+    console.error(`Role must be one of: ${ROLES.join(", ")}`);
+    process.exit(1);
+}
+
+if (password.length < 10) {
+    console.error("Passwords must be at least 10 characters long.");
+    process.exit(1);
+}
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !serviceRoleKey) {
+    console.error("NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.");
+    process.exit(1);
+}
+
+// Must match hashPassword() in src/lib/auth.ts
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64);
+const passwordHash = `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+const { error } = await supabase.from("staff").upsert(
+    {
+        username: username.toLowerCase().trim(),
+        display_name: nameParts.join(" ") || username,
+        role,
+        password_hash: passwordHash,
+    },
+    { onConflict: "username" }
+);
+
+if (error) {
+    console.error("Error creating staff account:", error.message);
+    process.exit(1);
+}
+
+console.log(`Staff account "${username}" (${role}) is ready.`);
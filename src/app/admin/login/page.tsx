@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { Shield, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export default function AdminLoginPage() {
+    const router = useRouter();
+    const [loginError, setLoginError] = useState("");
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleLogin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setLoginError("");
+
+        try {
+            const response = await fetch("/api/auth/login", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ username, password }),
+            });
+
+            if (response.ok) {
+                router.replace("/admin");
+                router.refresh();
+                return;
+            }
+
+            const { error } = await response.json().catch(() => ({ error: null }));
+            setLoginError(error || "Unable to sign in. Please try again.");
+        } catch {
+            setLoginError("An unexpected error occurred. Please try again.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-[80vh] flex items-center justify-center px-4">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.3 }}
+            >
+                <Card className="w-full max-w-md shadow-xl">
+                    <CardHeader className="text-center">
+                        <div className="mx-auto w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mb-4">
+                            <Shield className="h-8 w-8 text-primary" />
+                        </div>
+                        <CardTitle className="text-2xl">Admin Dashboard</CardTitle>
+                        <CardDescription>
+                            Sign in with your staff account
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <form onSubmit={handleLogin} className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="admin-username">Username</Label>
+                                <Input
+                                    id="admin-username"
+                                    value={username}
+                                    onChange={(e) => setUsername(e.target.value)}
+                                    placeholder="Enter username"
+                                    autoComplete="username"
+                                    aria-describedby={loginError ? "login-error" : undefined}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="admin-password">Password</Label>
+                                <Input
+                                    id="admin-password"
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder="Enter password"
+                                    autoComplete="current-password"
+                                    aria-describedby={loginError ? "login-error" : undefined}
+                                />
+                            </div>
+                            {loginError && (
+                                <p id="login-error" className="text-sm text-destructive" role="alert">
+                                    {loginError}
+                                </p>
+                            )}
+                            <Button type="submit" className="w-full" disabled={isSubmitting}>
+                                {isSubmitting ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <Shield className="mr-2 h-4 w-4" />
+                                )}
+                                Sign In
+                            </Button>
+                        </form>
+                    </CardContent>
+                </Card>
+            </motion.div>
+        </div>
+    );
+}
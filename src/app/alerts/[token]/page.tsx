@@ -0,0 +1,224 @@
+"use client";
+
+import React, { Suspense, useEffect, useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowLeft, Bell, BellOff, Loader2, Search, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { deleteSavedSearch, getSavedSearches } from "@/lib/public-actions";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import { describeSearch, savedSearchHref } from "@/lib/browse-filters";
+import { SavedSearch, SavedSearchList } from "@/lib/types";
+
+function AlertsContent() {
+    const params = useParams();
+    const searchParams = useSearchParams();
+    const token = params.token as string;
+    // Set by the "Stop this alert" link in alert emails
+    const unsubscribeId = searchParams.get("unsubscribe");
+    const [list, setList] = useState<SavedSearchList | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [deleting, setDeleting] = useState<string | null>(null);
+    const [stopped, setStopped] = useState<string | null>(null);
+    const [deleteError, setDeleteError] = useState(false);
+    const { taxonomy } = useTaxonomy();
+    const describe = (search: SavedSearch) => describeSearch(search, taxonomy.categories);
+
+    useEffect(() => {
+        async function fetchAlerts() {
+            try {
+                setList(await getSavedSearches(token));
+            } catch (error) {
+                console.error("Error fetching alerts:", error);
+            } finally {
+                setLoading(false);
+            }
+        }
+        fetchAlerts();
+    }, [token]);
+
+    const handleDelete = async (search: SavedSearch | null) => {
+        if (!list) return;
+        if (!search && !confirm("Stop all of your alerts? You can save new ones from the browse page.")) return;
+
+        setDeleting(search?.id ?? "all");
+        setDeleteError(false);
+        try {
+            if (await deleteSavedSearch(token, search?.id)) {
+                setList({ ...list, searches: search ? list.searches.filter((s) => s.id !== search.id) : [] });
+                setStopped(
+                    search
+                        ? `Stopped the alert for ${describe(search)}. You will not get any more emails for it.`
+                        : "Stopped all of your alerts. You will not get any more alert emails."
+                );
+            } else {
+                setDeleteError(true);
+            }
+        } catch {
+            setDeleteError(true);
+        } finally {
+            setDeleting(null);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                <p className="mt-4 text-muted-foreground">Loading your alerts...</p>
+            </div>
+        );
+    }
+
+    if (!list) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center max-w-xl">
+                <h1 className="text-2xl font-bold mb-4">Link Not Valid</h1>
+                <p className="text-muted-foreground mb-6">
+                    This link has expired. Open the link in your most recent alert email, or save the search again.
+                </p>
+                <Link href="/browse">
+                    <Button variant="outline">
+                        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Browse
+                    </Button>
+                </Link>
+            </div>
+        );
+    }
+
+    const unsubscribing = list.searches.find((s) => s.id === unsubscribeId);
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold mb-2">Your Alerts</h1>
+                    <p className="text-muted-foreground">
+                        This page is private to you. Alerts are sent to {list.email} when a newly listed item matches.
+                    </p>
+                </div>
+
+                {stopped && (
+                    <p className="p-3 rounded-lg bg-muted text-sm" role="status">
+                        {stopped}
+                    </p>
+                )}
+
+                {deleteError && (
+                    <p className="text-sm text-destructive" role="alert">
+                        The alert could not be stopped. Please try again.
+                    </p>
+                )}
+
+                {unsubscribing && (
+                    <Card className="border-primary/50">
+                        <CardContent className="flex flex-wrap items-center justify-between gap-4 p-4">
+                            <p className="text-sm">
+                                Stop emails for <span className="font-medium">{describe(unsubscribing)}</span>?
+                            </p>
+                            <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => handleDelete(unsubscribing)}
+                                disabled={deleting !== null}
+                                className="gap-1"
+                            >
+                                {deleting === unsubscribing.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <BellOff className="h-4 w-4" />
+                                )}
+                                Stop This Alert
+                            </Button>
+                        </CardContent>
+                    </Card>
+                )}
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Bell className="h-5 w-5" /> Saved Searches
+                        </CardTitle>
+                        <CardDescription>Save more from the browse page with the &ldquo;Alert Me&rdquo; button.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {list.searches.length === 0 ? (
+                            <p className="text-center text-muted-foreground py-8">You have no alerts</p>
+                        ) : (
+                            <ul className="divide-y">
+                                {list.searches.map((search) => (
+                                    <li key={search.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                                        <div className="space-y-1">
+                                            <p className="font-medium">{describe(search)}</p>
+                                            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                                                {search.confirmed_at ? (
+                                                    <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-100">Active</Badge>
+                                                ) : (
+                                                    <Badge variant="outline">Waiting for confirmation</Badge>
+                                                )}
+                                                Saved {new Date(search.created_at).toLocaleDateString()}
+                                            </p>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <Link href={savedSearchHref(search)}>
+                                                <Button variant="outline" size="sm" className="gap-1">
+                                                    <Search className="h-4 w-4" /> View Items
+                                                </Button>
+                                            </Link>
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => handleDelete(search)}
+                                                disabled={deleting !== null}
+                                                className="gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                                aria-label={`Delete alert for ${describe(search)}`}
+                                            >
+                                                {deleting === search.id ? (
+                                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                                ) : (
+                                                    <Trash2 className="h-4 w-4" />
+                                                )}
+                                                Delete
+                                            </Button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {list.searches.length > 1 && (
+                            <div className="flex justify-end pt-4">
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleDelete(null)}
+                                    disabled={deleting !== null}
+                                    className="text-muted-foreground gap-1"
+                                >
+                                    <BellOff className="h-4 w-4" /> Stop All Alerts
+                                </Button>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </motion.div>
+        </div>
+    );
+}
+
+export default function AlertsPage() {
+    return (
+        <Suspense
+            fallback={
+                <div className="container mx-auto px-4 py-20 text-center">
+                    <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                </div>
+            }
+        >
+            <AlertsContent />
+        </Suspense>
+    );
+}
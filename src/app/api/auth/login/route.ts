@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { authenticateStaff } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { getClientIp, isRateLimited, RATE_LIMITS, recordHit } from "@/lib/rate-limit";
+import { SESSION_COOKIE, SESSION_MAX_AGE, createSessionToken } from "@/lib/session";
+import { loginSchema } from "@/lib/types";
+
+export async function POST(request: Request) {
+    const body = await request.json().catch(() => null);
+    const parsed = loginSchema.safeParse(body);
+
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Please enter your username and password." }, { status: 400 });
+    }
+
+    // Failed attempts count against both the username and the address, so neither guessing one
+    // account's password nor trying many accounts from one place gets far
+    const failureKeys = [`user:${parsed.data.username}`, `ip:${getClientIp()}`];
+    if (
+        (await isRateLimited("login_failed", failureKeys[0], RATE_LIMITS.loginPerUsername)) ||
+        (await isRateLimited("login_failed", failureKeys[1], RATE_LIMITS.loginPerIp))
+    ) {
+        return NextResponse.json(
+            { error: "Too many failed sign-ins. Please wait 15 minutes and try again." },
+            { status: 429 }
+        );
+    }
+
+    const staff = await authenticateStaff(parsed.data.username, parsed.data.password);
+
+    if (!staff) {
+        await recordHit("login_failed", failureKeys);
+        await recordAudit({
+            actor: null,
+            actorName: parsed.data.username,
+            action: "auth.login_failed",
+            entityType: "session",
+        });
+        return NextResponse.json({ error: "Invalid username or password." }, { status: 401 });
+    }
+
+    await recordAudit({ actor: staff, action: "auth.login", entityType: "session", entityId: staff.id });
+
+    const response = NextResponse.json({ staff });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(staff), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        path: "/",
+        maxAge: SESSION_MAX_AGE,
+    });
+
+    return response;
+}
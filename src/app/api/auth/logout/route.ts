@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getCurrentStaff } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { SESSION_COOKIE } from "@/lib/session";
+
+export async function POST() {
+    const staff = await getCurrentStaff();
+    if (staff) {
+        await recordAudit({ actor: staff, action: "auth.logout", entityType: "session", entityId: staff.id });
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+}
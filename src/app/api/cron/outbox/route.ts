@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { processOutbox } from "@/lib/notifications";
+
+// Called on a schedule (e.g. a Vercel cron job) to retry emails that failed to send.
+export async function GET(request: Request) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await processOutbox();
+    return NextResponse.json(result);
+}
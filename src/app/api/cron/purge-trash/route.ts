@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { purgeExpiredTrash } from "@/lib/trash";
+import { pruneRateLimitEvents } from "@/lib/rate-limit";
+import { pruneUnconfirmedSearches } from "@/lib/saved-searches";
+import { pruneOutbox } from "@/lib/notifications";
+
+// Called on a schedule to permanently delete items and claims past the trash retention window,
+// to clear rate-limit hits that are too old to count, to drop saved searches nobody confirmed
+// and to delete old outbox rows.
+export async function GET(request: Request) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await purgeExpiredTrash();
+    const rateLimitEvents = await pruneRateLimitEvents();
+    const unconfirmedSearches = await pruneUnconfirmedSearches();
+    const outboxEmails = await pruneOutbox();
+    return NextResponse.json({ ...result, rateLimitEvents, unconfirmedSearches, outboxEmails });
+}
@@ -1,9 +1,9 @@
 "use client";
 
-import React, { useEffect, useState, useMemo } from "react";
-import Fuse from "fuse.js";
+import React, { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { motion } from "framer-motion";
-import { Search, SlidersHorizontal, X, Package } from "lucide-react";
+import { Search, SlidersHorizontal, X, Package, Loader2, LayoutGrid, Map as MapIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -11,68 +11,179 @@ import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
 import ItemCard from "@/components/ItemCard";
-import { getItems } from "@/lib/actions";
-import { Item, CATEGORIES, ItemType, ItemCategory } from "@/lib/types";
+import SaveSearchDialog from "@/components/SaveSearchDialog";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import BrowseMap from "@/components/BrowseMap";
+import { getItems, BROWSE_PAGE_SIZE, MAP_PIN_LIMIT } from "@/lib/actions";
+import { ACTIVE_STATUSES } from "@/lib/lifecycle";
+import { publicAttributeFields } from "@/lib/attributes";
+import { browseHref, parseBrowseFilters, BrowseFilters, DEFAULT_BROWSE_FILTERS } from "@/lib/browse-filters";
+import { PublicItem, BrowseSort, ItemCursor, ItemType, BROWSE_SORTS } from "@/lib/types";
 
-export default function BrowsePage() {
-    const [items, setItems] = useState<Item[]>([]);
+// How long typing has to pause before the search runs
+const SEARCH_DELAY_MS = 300;
+
+const chipClassName = (active: boolean) =>
+    cn(
+        "px-3 py-1.5 rounded-full text-sm font-medium transition-all border",
+        active ? "bg-primary text-primary-foreground border-primary" : "bg-background border-border hover:border-primary/50"
+    );
+
+const selectClassName =
+    "flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+// Everything in the filter panel, i.e. all filters except the search box and the sort order
+function countActiveFilters(filters: BrowseFilters): number {
+    return [
+        filters.type !== "all",
+        filters.category !== "all",
+        Object.keys(filters.attributes).length > 0,
+        filters.locations.length > 0,
+        filters.from !== "" || filters.to !== "",
+        filters.includeReturned,
+    ].filter(Boolean).length;
+}
+
+function BrowseContent() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    // The query string is the source of truth, so refresh, shared links and back/forward all work
+    const filters = useMemo(() => parseBrowseFilters(searchParams), [searchParams]);
+    const { taxonomy } = useTaxonomy();
+    // Retired entries only show up while a link still filters on them
+    const categoryChips = taxonomy.categories.filter((cat) => !cat.retired_at || cat.value === filters.category);
+    const attributeFilters = publicAttributeFields(filters.category);
+    const locationChips = taxonomy.locations
+        .filter((loc) => !loc.retired_at || filters.locations.includes(loc.name))
+        .map((loc) => loc.name);
+    const [items, setItems] = useState<PublicItem[]>([]);
+    const [total, setTotal] = useState(0);
+    const [nextCursor, setNextCursor] = useState<ItemCursor | null>(null);
     const [loading, setLoading] = useState(true);
-    const [searchQuery, setSearchQuery] = useState("");
-    const [filterType, setFilterType] = useState<ItemType | "all">("all");
-    const [filterCategory, setFilterCategory] = useState<ItemCategory | "all">("all");
-    const [showFilters, setShowFilters] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [searchQuery, setSearchQuery] = useState(filters.search);
+    const [showFilters, setShowFilters] = useState(countActiveFilters(filters) > 0);
+    // True while the user keeps typing, so one search adds one history entry rather than one per pause
+    const typing = useRef(false);
+    // Bumped on every new search so a slow response for an older query is ignored
+    const requestId = useRef(0);
+    const sentinel = useRef<HTMLDivElement>(null);
+
+    const updateFilters = useCallback(
+        (changes: Partial<BrowseFilters>, mode: "push" | "replace" = "push") => {
+            router[mode](browseHref({ ...filters, ...changes }), { scroll: false });
+        },
+        [router, filters]
+    );
 
     useEffect(() => {
+        if (searchQuery.trim() === filters.search) return;
+        const timer = setTimeout(() => {
+            updateFilters({ search: searchQuery }, typing.current ? "replace" : "push");
+            typing.current = true;
+        }, SEARCH_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [searchQuery, filters.search, updateFilters]);
+
+    // Back and forward change the query string underneath the search box
+    useEffect(() => {
+        setSearchQuery((current) => (current.trim() === filters.search ? current : filters.search));
+    }, [filters.search]);
+
+    const query = useMemo(
+        () => ({
+            statuses: filters.includeReturned ? [...ACTIVE_STATUSES, "returned" as const] : ACTIVE_STATUSES,
+            search: filters.search || undefined,
+            type: filters.type === "all" ? undefined : filters.type,
+            category: filters.category === "all" ? undefined : filters.category,
+            locations: filters.locations,
+            attributes: filters.attributes,
+            dateFrom: filters.from || undefined,
+            dateTo: filters.to || undefined,
+            sort: filters.sort,
+        }),
+        [filters]
+    );
+
+    // The map shows every match at once instead of paging
+    const pageSize = filters.view === "map" ? MAP_PIN_LIMIT : BROWSE_PAGE_SIZE;
+
+    useEffect(() => {
+        const request = ++requestId.current;
         async function fetchItems() {
+            setLoading(true);
             try {
-                const data = await getItems({ status: "approved" });
-                setItems(data);
+                const page = await getItems(query, null, pageSize);
+                if (request !== requestId.current) return;
+                setItems(page.items);
+                setTotal(page.total);
+                setNextCursor(page.nextCursor);
             } catch (error) {
                 console.error("Error fetching items:", error);
             } finally {
-                setLoading(false);
+                if (request === requestId.current) setLoading(false);
             }
         }
         fetchItems();
-    }, []);
-
-    const fuse = useMemo(
-        () =>
-            new Fuse(items, {
-                keys: [
-                    { name: "title", weight: 0.7 },
-                    { name: "description", weight: 0.3 },
-                ],
-                threshold: 0.4,
-                includeScore: true,
-            }),
-        [items]
-    );
-
-    const filteredItems = useMemo(() => {
-        let result = items;
+    }, [query, pageSize]);
 
-        if (searchQuery.trim()) {
-            result = fuse.search(searchQuery).map((r) => r.item);
+    const loadMore = useCallback(async () => {
+        if (!nextCursor || loadingMore) return;
+        const request = requestId.current;
+        setLoadingMore(true);
+        try {
+            const page = await getItems(query, nextCursor, pageSize);
+            if (request !== requestId.current) return;
+            setItems((prev) => [...prev, ...page.items]);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            console.error("Error fetching more items:", error);
+        } finally {
+            setLoadingMore(false);
         }
+    }, [query, nextCursor, loadingMore, pageSize]);
 
-        if (filterType !== "all") {
-            result = result.filter((item) => item.type === filterType);
-        }
+    // Infinite scroll: load the next page as the end of the grid comes into view
+    useEffect(() => {
+        const target = sentinel.current;
+        if (!target || !nextCursor) return;
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries[0].isIntersecting) loadMore();
+            },
+            { rootMargin: "400px" }
+        );
+        observer.observe(target);
+        return () => observer.disconnect();
+    }, [loadMore, nextCursor]);
 
-        if (filterCategory !== "all") {
-            result = result.filter((item) => item.category === filterCategory);
-        }
+    const activeFilterCount = countActiveFilters(filters);
 
-        return result;
-    }, [items, searchQuery, filterType, filterCategory, fuse]);
+    const setFilter = (changes: Partial<BrowseFilters>) => {
+        typing.current = false;
+        updateFilters(changes);
+    };
 
-    const activeFilterCount = [filterType !== "all", filterCategory !== "all"].filter(Boolean).length;
+    const setAttribute = (key: string, value: string) => {
+        const attributes = { ...filters.attributes };
+        if (value.trim()) attributes[key] = value.trim();
+        else delete attributes[key];
+        if ((filters.attributes[key] ?? "") !== (attributes[key] ?? "")) setFilter({ attributes });
+    };
 
+    const toggleLocation = (location: string) => {
+        setFilter({
+            locations: filters.locations.includes(location)
+                ? filters.locations.filter((l) => l !== location)
+                : [...filters.locations, location],
+        });
+    };
+
+    // Keeps the sort order and grid/map view, which are view preferences rather than filters
     const clearFilters = () => {
-        setFilterType("all");
-        setFilterCategory("all");
+        typing.current = false;
         setSearchQuery("");
+        router.push(browseHref({ ...DEFAULT_BROWSE_FILTERS, sort: filters.sort, view: filters.view }), { scroll: false });
     };
 
     return (
@@ -97,6 +208,9 @@ export default function BrowsePage() {
                             placeholder="Search by title or description..."
                             value={searchQuery}
                             onChange={(e) => setSearchQuery(e.target.value)}
+                            onBlur={() => {
+                                typing.current = false;
+                            }}
                             className="pl-10"
                             aria-label="Search items"
                         />
@@ -126,6 +240,18 @@ export default function BrowsePage() {
                             </Badge>
                         )}
                     </Button>
+
+                    <SaveSearchDialog
+                        criteria={{
+                            search: filters.search || null,
+                            type: filters.type === "all" ? null : filters.type,
+                            category: filters.category === "all" ? null : filters.category,
+                            // An alert watches one location
+                            location: filters.locations.length === 1 ? filters.locations[0] : null,
+                            date_from: filters.from || null,
+                            date_to: filters.to || null,
+                        }}
+                    />
                 </div>
 
                 {showFilters && (
@@ -147,10 +273,10 @@ export default function BrowsePage() {
                                     ].map((opt) => (
                                         <button
                                             key={opt.value}
-                                            onClick={() => setFilterType(opt.value as ItemType | "all")}
+                                            onClick={() => setFilter({ type: opt.value as ItemType | "all" })}
                                             className={cn(
                                                 "px-3 py-1.5 rounded-full text-sm font-medium transition-all border",
-                                                filterType === opt.value
+                                                filters.type === opt.value
                                                     ? opt.value === "lost"
                                                         ? "bg-red-500 text-white border-red-500"
                                                         : opt.value === "found"
@@ -158,7 +284,7 @@ export default function BrowsePage() {
                                                             : "bg-primary text-primary-foreground border-primary"
                                                     : "bg-background border-border hover:border-primary/50"
                                             )}
-                                            aria-pressed={filterType === opt.value}
+                                            aria-pressed={filters.type === opt.value}
                                         >
                                             {opt.label}
                                         </button>
@@ -170,28 +296,18 @@ export default function BrowsePage() {
                                 <Label className="text-sm font-medium">Category</Label>
                                 <div className="flex flex-wrap gap-2">
                                     <button
-                                        onClick={() => setFilterCategory("all")}
-                                        className={cn(
-                                            "px-3 py-1.5 rounded-full text-sm font-medium transition-all border",
-                                            filterCategory === "all"
-                                                ? "bg-primary text-primary-foreground border-primary"
-                                                : "bg-background border-border hover:border-primary/50"
-                                        )}
-                                        aria-pressed={filterCategory === "all"}
+                                        onClick={() => setFilter({ category: "all", attributes: {} })}
+                                        className={chipClassName(filters.category === "all")}
+                                        aria-pressed={filters.category === "all"}
                                     >
                                         All
                                     </button>
-                                    {CATEGORIES.map((cat) => (
+                                    {categoryChips.map((cat) => (
                                         <button
                                             key={cat.value}
-                                            onClick={() => setFilterCategory(cat.value)}
-                                            className={cn(
-                                                "px-3 py-1.5 rounded-full text-sm font-medium transition-all border",
-                                                filterCategory === cat.value
-                                                    ? "bg-primary text-primary-foreground border-primary"
-                                                    : "bg-background border-border hover:border-primary/50"
-                                            )}
-                                            aria-pressed={filterCategory === cat.value}
+                                            onClick={() => setFilter({ category: cat.value, attributes: {} })}
+                                            className={chipClassName(filters.category === cat.value)}
+                                            aria-pressed={filters.category === cat.value}
                                         >
                                             {cat.label}
                                         </button>
@@ -199,6 +315,105 @@ export default function BrowsePage() {
                                 </div>
                             </div>
 
+                            {attributeFilters.length > 0 && (
+                                <div className="space-y-2">
+                                    <Label className="text-sm font-medium">Details</Label>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {attributeFilters.map((field) =>
+                                            field.options ? (
+                                                <select
+                                                    key={field.key}
+                                                    value={filters.attributes[field.key] ?? ""}
+                                                    onChange={(e) => setAttribute(field.key, e.target.value)}
+                                                    className={selectClassName}
+                                                    aria-label={field.label}
+                                                >
+                                                    <option value="">Any {field.label.toLowerCase()}</option>
+                                                    {field.options.map((option) => (
+                                                        <option key={option} value={option}>
+                                                            {option}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            ) : (
+                                                // Applied on blur or Enter rather than per keystroke; the key
+                                                // resets the box when back/forward changes the filter
+                                                <Input
+                                                    key={`${field.key}:${filters.attributes[field.key] ?? ""}`}
+                                                    defaultValue={filters.attributes[field.key] ?? ""}
+                                                    placeholder={field.label}
+                                                    aria-label={field.label}
+                                                    onBlur={(e) => setAttribute(field.key, e.target.value)}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === "Enter") setAttribute(field.key, e.currentTarget.value);
+                                                    }}
+                                                    className="h-9 w-40"
+                                                />
+                                            )
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">Location</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    <button
+                                        onClick={() => setFilter({ locations: [] })}
+                                        className={chipClassName(filters.locations.length === 0)}
+                                        aria-pressed={filters.locations.length === 0}
+                                    >
+                                        Anywhere
+                                    </button>
+                                    {locationChips.map((location) => (
+                                        <button
+                                            key={location}
+                                            onClick={() => toggleLocation(location)}
+                                            className={chipClassName(filters.locations.includes(location))}
+                                            aria-pressed={filters.locations.includes(location)}
+                                        >
+                                            {location}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">Date lost or found</Label>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <Input
+                                        type="date"
+                                        value={filters.from}
+                                        max={filters.to || undefined}
+                                        onChange={(e) => setFilter({ from: e.target.value })}
+                                        className="w-auto"
+                                        aria-label="From date"
+                                    />
+                                    <span className="text-sm text-muted-foreground">to</span>
+                                    <Input
+                                        type="date"
+                                        value={filters.to}
+                                        min={filters.from || undefined}
+                                        onChange={(e) => setFilter({ to: e.target.value })}
+                                        className="w-auto"
+                                        aria-label="To date"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">Returned items</Label>
+                                <label className="flex items-center gap-2 text-sm h-10">
+                                    <input
+                                        type="checkbox"
+                                        checked={filters.includeReturned}
+                                        onChange={(e) => setFilter({ includeReturned: e.target.checked })}
+                                        className="h-4 w-4 rounded border-input accent-[hsl(var(--primary))]"
+                                    />
+                                    Include items already returned to their owners
+                                </label>
+                            </div>
+
                             {activeFilterCount > 0 && (
                                 <div className="flex items-end">
                                     <Button variant="ghost" size="sm" onClick={clearFilters} className="text-muted-foreground">
@@ -210,32 +425,89 @@ export default function BrowsePage() {
                     </motion.div>
                 )}
 
-                <p className="text-sm text-muted-foreground">
-                    Showing {filteredItems.length} of {items.length} items
-                    {searchQuery && ` matching "${searchQuery}"`}
-                </p>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <p className="text-sm text-muted-foreground">
+                        {loading
+                            ? "Searching..."
+                            : `Showing ${items.length} of ${total} item${total === 1 ? "" : "s"}${
+                                  filters.search ? ` matching "${filters.search}"` : ""
+                              }`}
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <div className="flex rounded-md border" role="group" aria-label="View">
+                            <Button
+                                variant={filters.view === "grid" ? "secondary" : "ghost"}
+                                size="sm"
+                                onClick={() => setFilter({ view: "grid" })}
+                                className="gap-1 rounded-r-none"
+                                aria-pressed={filters.view === "grid"}
+                            >
+                                <LayoutGrid className="h-4 w-4" /> Grid
+                            </Button>
+                            <Button
+                                variant={filters.view === "map" ? "secondary" : "ghost"}
+                                size="sm"
+                                onClick={() => setFilter({ view: "map" })}
+                                className="gap-1 rounded-l-none"
+                                aria-pressed={filters.view === "map"}
+                            >
+                                <MapIcon className="h-4 w-4" /> Map
+                            </Button>
+                        </div>
+                        <Label htmlFor="browse_sort" className="text-sm text-muted-foreground">
+                            Sort by
+                        </Label>
+                        <select
+                            id="browse_sort"
+                            value={filters.sort}
+                            onChange={(e) => setFilter({ sort: e.target.value as BrowseSort })}
+                            className={selectClassName}
+                        >
+                            {BROWSE_SORTS.map((sort) => (
+                                <option key={sort.value} value={sort.value}>
+                                    {sort.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
             </div>
 
-            {loading ? (
+            {loading && filters.view === "map" ? (
+                <Card className="aspect-[5/3] animate-pulse bg-muted" />
+            ) : loading ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                     {[1, 2, 3, 4, 5, 6, 7, 8].map((i) => (
                         <Card key={i} className="h-80 animate-pulse bg-muted" />
                     ))}
                 </div>
-            ) : filteredItems.length > 0 ? (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                    {filteredItems.map((item, index) => (
-                        <ItemCard key={item.id} item={item} index={index} />
-                    ))}
-                </div>
+            ) : items.length > 0 && filters.view === "map" ? (
+                <BrowseMap items={items} />
+            ) : items.length > 0 ? (
+                <>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                        {items.map((item, index) => (
+                            // Restart the entrance stagger for each page so later pages don't lag
+                            <ItemCard key={item.id} item={item} index={index % BROWSE_PAGE_SIZE} />
+                        ))}
+                    </div>
+                    {nextCursor && (
+                        <div ref={sentinel} className="flex justify-center mt-8">
+                            <Button variant="outline" onClick={loadMore} disabled={loadingMore} className="gap-2">
+                                {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                                {loadingMore ? "Loading..." : "Load More"}
+                            </Button>
+                        </div>
+                    )}
+                </>
             ) : (
                 <Card className="p-16 text-center">
                     <CardContent>
                         <Package className="mx-auto h-16 w-16 text-muted-foreground/30 mb-6" />
                         <h3 className="font-semibold text-lg mb-2">No items found</h3>
                         <p className="text-muted-foreground mb-4">
-                            {searchQuery
-                                ? `No items match "${searchQuery}". Try adjusting your search or filters.`
+                            {filters.search
+                                ? `No items match "${filters.search}". Try adjusting your search or filters.`
                                 : "No items have been reported yet. Be the first to report one!"}
                         </p>
                         <Button variant="outline" onClick={clearFilters}>
@@ -247,3 +519,17 @@ export default function BrowsePage() {
         </div>
     );
 }
+
+export default function BrowsePage() {
+    return (
+        <Suspense
+            fallback={
+                <div className="container mx-auto px-4 py-20 text-center">
+                    <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                </div>
+            }
+        >
+            <BrowseContent />
+        </Suspense>
+    );
+}
@@ -16,42 +16,51 @@ import {
     HandHelping,
     CheckCircle2,
     Loader2,
+    Trash2,
+    Lock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import ClaimModal from "@/components/ClaimModal";
+import ItemStatusBadge from "@/components/ItemStatusBadge";
+import ManageLinkNotice from "@/components/ManageLinkNotice";
+import CampusFloorPlan from "@/components/CampusFloorPlan";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import ItemMatchesPanel from "@/components/admin/ItemMatchesPanel";
+import CustodyPanel from "@/components/admin/CustodyPanel";
 import { getItemById } from "@/lib/actions";
-import { Item } from "@/lib/types";
-
-const categoryLabels: Record<string, string> = {
-    electronics: "Electronics",
-    clothing: "Clothing",
-    books: "Books & Notebooks",
-    accessories: "Accessories",
-    sports: "Sports Equipment",
-    other: "Other",
-};
-
-function obfuscateEmail(email: string): string {
-    const [local, domain] = email.split("@");
-    if (local.length <= 2) return `${local[0]}*@${domain}`;
-    return `${local[0]}${"*".repeat(local.length - 2)}${local[local.length - 1]}@${domain}`;
-}
+import { getStaffSession, getItemForStaff, getMatchesForItem } from "@/lib/admin-actions";
+import { CLAIMABLE_STATUSES } from "@/lib/lifecycle";
+import { floorName, getFloor, itemPosition } from "@/lib/campus-map";
+import { describeAttributes } from "@/lib/attributes";
+import { Item, ItemMatch, PublicItem, StaffUser } from "@/lib/types";
 
 export default function ItemDetailPage() {
     const params = useParams();
     const searchParams = useSearchParams();
-    const [item, setItem] = useState<Item | null>(null);
+    const { categoryLabel, zones } = useTaxonomy();
+    const [item, setItem] = useState<PublicItem | Item | null>(null);
+    const [staff, setStaff] = useState<StaffUser | null>(null);
+    const [matches, setMatches] = useState<ItemMatch[]>([]);
     const [loading, setLoading] = useState(true);
     const isNewlyCreated = searchParams.get("new") === "true";
 
     useEffect(() => {
         async function fetchItem() {
             if (params.id) {
-                const data = await getItemById(params.id as string);
-                setItem(data);
+                const id = params.id as string;
+                const currentStaff = await getStaffSession();
+                // Staff can open any report (including pending ones) and see its match candidates
+                if (currentStaff) {
+                    const [data, matchData] = await Promise.all([getItemForStaff(id), getMatchesForItem(id)]);
+                    setItem(data);
+                    setMatches(matchData);
+                } else {
+                    setItem(await getItemById(id));
+                }
+                setStaff(currentStaff);
             }
             setLoading(false);
         }
@@ -67,6 +76,27 @@ export default function ItemDetailPage() {
         );
     }
 
+    if (!item && isNewlyCreated) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center max-w-xl">
+                <CheckCircle2 className="h-12 w-12 text-emerald-600 mx-auto mb-4" />
+                <h1 className="text-2xl font-bold mb-4">Report submitted successfully!</h1>
+                <p className="text-muted-foreground mb-6">
+                    An administrator will review your report shortly. It will appear in the
+                    browse list once it has been approved.
+                </p>
+                <div className="mb-6">
+                    <ManageLinkNotice itemId={params.id as string} />
+                </div>
+                <Link href="/browse">
+                    <Button variant="outline">
+                        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Browse
+                    </Button>
+                </Link>
+            </div>
+        );
+    }
+
     if (!item) {
         return (
             <div className="container mx-auto px-4 py-20 text-center">
@@ -84,6 +114,15 @@ export default function ItemDetailPage() {
     }
 
     const isLost = item.type === "lost";
+    // Only staff can load a trashed item (see getItemForStaff)
+    const isTrashed = "deleted_at" in item && item.deleted_at !== null;
+    const position = itemPosition(item, zones);
+    const floor = getFloor(position?.floor);
+    // Staff also see the private details, such as serial numbers
+    const details = describeAttributes(item.category, {
+        ...item.attributes,
+        ...("private_attributes" in item ? item.private_attributes : {}),
+    });
 
     return (
         <div className="container mx-auto px-4 py-8 max-w-4xl">
@@ -106,6 +145,11 @@ export default function ItemDetailPage() {
                     </div>
                 </motion.div>
             )}
+            {isNewlyCreated && (
+                <div className="mb-6">
+                    <ManageLinkNotice itemId={item.id} />
+                </div>
+            )}
 
             <motion.div
                 initial={{ opacity: 0, y: 20 }}
@@ -148,16 +192,12 @@ export default function ItemDetailPage() {
                                 )}
                             </Badge>
                             <Badge variant="secondary">
-                                {categoryLabels[item.category] || item.category}
+                                {categoryLabel(item.category)}
                             </Badge>
-                            {item.status === "pending" && (
-                                <Badge className="bg-yellow-500 hover:bg-yellow-600 text-white">
-                                    Pending Review
-                                </Badge>
-                            )}
-                            {item.status === "returned" && (
-                                <Badge className="bg-blue-500 hover:bg-blue-600 text-white">
-                                    <CheckCircle2 className="mr-1 h-3 w-3" /> Returned
+                            {item.status !== "listed" && <ItemStatusBadge status={item.status} variant="solid" />}
+                            {isTrashed && (
+                                <Badge className="bg-gray-500 hover:bg-gray-600 text-white">
+                                    <Trash2 className="mr-1 h-3 w-3" /> In Trash
                                 </Badge>
                             )}
                         </div>
@@ -198,11 +238,45 @@ export default function ItemDetailPage() {
                                 <Mail className="h-5 w-5 text-muted-foreground mt-0.5 flex-shrink-0" />
                                 <div>
                                     <p className="text-xs text-muted-foreground uppercase tracking-wide">Contact</p>
-                                    <p className="font-medium">{obfuscateEmail(item.contact_email)}</p>
+                                    <p className="font-medium">{item.contact_hint}</p>
                                 </div>
                             </div>
                         </div>
 
+                        {details.length > 0 && (
+                            <dl className="grid grid-cols-2 gap-x-4 gap-y-3 rounded-lg border p-4">
+                                {details.map((detail) => (
+                                    <div key={detail.key}>
+                                        <dt className="flex items-center gap-1 text-xs text-muted-foreground uppercase tracking-wide">
+                                            {detail.label}
+                                            {detail.private && <Lock className="h-3 w-3" aria-label="Staff only" />}
+                                        </dt>
+                                        <dd className="font-medium break-words">{detail.value}</dd>
+                                    </div>
+                                ))}
+                            </dl>
+                        )}
+
+                        {position && floor && (
+                            <figure className="space-y-2">
+                                <CampusFloorPlan floor={floor} zones={zones} highlight={item.location}>
+                                    {position.exact && (
+                                        <circle
+                                            cx={position.x * floor.width}
+                                            cy={position.y * floor.height}
+                                            r={floor.width / 60}
+                                            className="fill-red-500 stroke-white"
+                                            strokeWidth={3}
+                                        />
+                                    )}
+                                </CampusFloorPlan>
+                                <figcaption className="text-xs text-muted-foreground">
+                                    {floorName(floor)}
+                                    {position.exact ? " · pinned by the reporter" : " · the reporter did not pin an exact spot"}
+                                </figcaption>
+                            </figure>
+                        )}
+
                         <Separator />
 
                         <p className="text-xs text-muted-foreground">
@@ -214,11 +288,14 @@ export default function ItemDetailPage() {
                             })}
                         </p>
 
-                        {item.status === "approved" && (
+                        {CLAIMABLE_STATUSES.includes(item.status) && !isTrashed && (
                             <ClaimModal itemId={item.id} itemTitle={item.title} />
                         )}
                     </div>
                 </div>
+
+                {staff && "custodian_id" in item && item.type === "found" && <CustodyPanel item={item} staff={staff} />}
+                {staff && <ItemMatchesPanel itemId={item.id} matches={matches} />}
             </motion.div>
         </div>
     );
@@ -3,6 +3,7 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import NavBar from "@/components/NavBar";
 import Footer from "@/components/Footer";
+import TaxonomyProvider from "@/components/TaxonomyProvider";
 
 const inter = Inter({ subsets: ["latin"], variable: "--font-inter" });
 
@@ -25,13 +26,15 @@ export default function RootLayout({
           Skip to main content
         </a>
 
-        <NavBar />
+        <TaxonomyProvider>
+          <NavBar />
 
-        <main id="main-content" className="flex-1" role="main">
-          {children}
-        </main>
+          <main id="main-content" className="flex-1" role="main">
+            {children}
+          </main>
 
-        <Footer />
+          <Footer />
+        </TaxonomyProvider>
       </body>
     </html>
   );
@@ -0,0 +1,436 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { motion } from "framer-motion";
+import { ArrowLeft, CheckCircle2, Loader2, MessageSquare, Package, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import FileUpload from "@/components/FileUpload";
+import CampusMapPicker from "@/components/CampusMapPicker";
+import AttributeFields from "@/components/AttributeFields";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import ItemStatusBadge from "@/components/ItemStatusBadge";
+import { getManagedReport, updateManagedReport, withdrawManagedReport } from "@/lib/public-actions";
+import { canTransition, EDITABLE_STATUSES, PUBLIC_STATUSES } from "@/lib/lifecycle";
+import { ManagedReport, ReportEditData, reportEditSchema } from "@/lib/types";
+
+const selectClassName =
+    "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+// The form edits public and staff-only details together; the server splits them again
+function toFormValues(report: ManagedReport): ReportEditData {
+    return { ...report, attributes: { ...report.attributes, ...report.private_attributes } };
+}
+
+const WITHDRAW_REASONS = ["I found it myself", "The owner already has it back", "I reported it by mistake", "Other"];
+
+export default function ManageReportPage() {
+    const params = useParams();
+    const token = params.token as string;
+    const [report, setReport] = useState<ManagedReport | null>(null);
+    const [loading, setLoading] = useState(true);
+    const { taxonomy, loading: taxonomyLoading } = useTaxonomy();
+    const [selectedFile, setSelectedFile] = useState<File | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveResult, setSaveResult] = useState<"success" | "error" | null>(null);
+    const [withdrawReason, setWithdrawReason] = useState(WITHDRAW_REASONS[0]);
+    const [isWithdrawing, setIsWithdrawing] = useState(false);
+    const [withdrawError, setWithdrawError] = useState(false);
+
+    const {
+        register,
+        handleSubmit,
+        reset,
+        setValue,
+        watch,
+        formState: { errors },
+    } = useForm<ReportEditData>({
+        resolver: zodResolver(reportEditSchema),
+    });
+
+    const [watchCategory, watchAttributes, watchLocation, mapFloor, mapX, mapY] = watch([
+        "category",
+        "attributes",
+        "location",
+        "map_floor",
+        "map_x",
+        "map_y",
+    ]);
+
+    const clearMapPosition = () => {
+        setValue("map_floor", null);
+        setValue("map_x", null);
+        setValue("map_y", null);
+    };
+
+    useEffect(() => {
+        async function fetchReport() {
+            try {
+                const data = await getManagedReport(token);
+                setReport(data);
+                if (data) reset(toFormValues(data));
+            } catch (error) {
+                console.error("Error fetching report:", error);
+            } finally {
+                setLoading(false);
+            }
+        }
+        fetchReport();
+    }, [token, reset]);
+
+    const onSubmit = async (data: ReportEditData) => {
+        setIsSaving(true);
+        setSaveResult(null);
+
+        try {
+            const formData = new FormData();
+            Object.entries(data).forEach(([key, value]) => {
+                if (value === null || value === undefined) return;
+                formData.append(key, typeof value === "object" ? JSON.stringify(value) : String(value));
+            });
+            if (selectedFile) {
+                formData.append("image", selectedFile);
+            }
+
+            const updated = await updateManagedReport(token, formData);
+            if (updated) {
+                setReport(updated);
+                reset(toFormValues(updated));
+                setSelectedFile(null);
+                setSaveResult("success");
+            } else {
+                setSaveResult("error");
+            }
+        } catch {
+            setSaveResult("error");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleWithdraw = async () => {
+        if (!report || !confirm("Withdraw this report? It will be removed from the site and cannot be reopened.")) return;
+        setIsWithdrawing(true);
+        setWithdrawError(false);
+
+        try {
+            if (await withdrawManagedReport(token, withdrawReason)) {
+                setReport({ ...report, status: "withdrawn" });
+            } else {
+                setWithdrawError(true);
+            }
+        } catch {
+            setWithdrawError(true);
+        } finally {
+            setIsWithdrawing(false);
+        }
+    };
+
+    // The report keeps its category and location even if they have been retired since
+    const categoryOptions = taxonomy.categories.filter((cat) => !cat.retired_at || cat.value === report?.category);
+    const locationOptions = taxonomy.locations
+        .filter((loc) => !loc.retired_at || loc.name === report?.location)
+        .map((loc) => loc.name);
+
+    // Wait for the lists too, so the selects have their options when the report's values are set
+    if (loading || taxonomyLoading) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                <p className="mt-4 text-muted-foreground">Loading your report...</p>
+            </div>
+        );
+    }
+
+    if (!report) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center max-w-xl">
+                <h1 className="text-2xl font-bold mb-4">Link Not Valid</h1>
+                <p className="text-muted-foreground mb-6">
+                    This link has expired or the report has been removed. Please contact the main office.
+                </p>
+                <Link href="/browse">
+                    <Button variant="outline">
+                        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Browse
+                    </Button>
+                </Link>
+            </div>
+        );
+    }
+
+    const canEdit = EDITABLE_STATUSES.includes(report.status);
+    const canWithdraw = canTransition(report.status, "withdrawn");
+    const isPublic = PUBLIC_STATUSES.includes(report.status);
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold mb-2">Manage Your Report</h1>
+                    <p className="text-muted-foreground">
+                        This page is private to you. Reported {new Date(report.created_at).toLocaleDateString()} for{" "}
+                        {report.contact_email}.
+                    </p>
+                </div>
+
+                <Card>
+                    <CardContent className="flex flex-wrap items-center justify-between gap-4 p-4">
+                        <span className="flex items-center gap-2 font-medium">
+                            <Package className="h-4 w-4 text-muted-foreground" /> {report.title}
+                        </span>
+                        <div className="flex items-center gap-3">
+                            <ItemStatusBadge status={report.status} />
+                            {isPublic && (
+                                <Link href={`/items/${report.id}`} className="text-sm text-primary hover:underline">
+                                    View public page
+                                </Link>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {(report.status === "changes_requested" || report.status === "rejected") && report.moderation_note && (
+                    <div className="p-3 rounded-lg bg-muted text-sm" role="status">
+                        <p className="flex items-center gap-2 font-medium mb-1">
+                            <MessageSquare className="h-4 w-4" /> Message from staff
+                        </p>
+                        <p className="whitespace-pre-line">{report.moderation_note}</p>
+                    </div>
+                )}
+
+                {report.status === "withdrawn" && (
+                    <p className="p-3 rounded-lg bg-muted text-sm" role="status">
+                        You withdrew this report. It is no longer shown on the site.
+                    </p>
+                )}
+
+                {canEdit ? (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Edit Details</CardTitle>
+                            <CardDescription>
+                                {report.status === "pending"
+                                    ? "Your report is waiting for review, so changes are checked along with it."
+                                    : "Saving changes sends your report back to staff for review before it appears again."}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="title">Item Title *</Label>
+                                        <Input
+                                            id="title"
+                                            {...register("title")}
+                                            aria-describedby={errors.title ? "title-error" : undefined}
+                                            aria-invalid={!!errors.title}
+                                        />
+                                        {errors.title && (
+                                            <p id="title-error" className="text-sm text-destructive" role="alert">
+                                                {errors.title.message}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        <Label htmlFor="category">Category *</Label>
+                                        <select
+                                            id="category"
+                                            {...register("category", { onChange: () => setValue("attributes", {}) })}
+                                            className={selectClassName}
+                                        >
+                                            {categoryOptions.map((cat) => (
+                                                <option key={cat.value} value={cat.value}>
+                                                    {cat.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+
+                                <AttributeFields
+                                    category={watchCategory}
+                                    values={watchAttributes ?? {}}
+                                    onChange={(values) => setValue("attributes", values, { shouldDirty: true })}
+                                />
+
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="date_occurred">Date *</Label>
+                                        <Input
+                                            id="date_occurred"
+                                            type="date"
+                                            {...register("date_occurred")}
+                                            aria-describedby={errors.date_occurred ? "date-error" : undefined}
+                                            aria-invalid={!!errors.date_occurred}
+                                        />
+                                        {errors.date_occurred && (
+                                            <p id="date-error" className="text-sm text-destructive" role="alert">
+                                                {errors.date_occurred.message}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        <Label htmlFor="time_occurred">Approximate Time *</Label>
+                                        <Input
+                                            id="time_occurred"
+                                            type="time"
+                                            {...register("time_occurred")}
+                                            aria-describedby={errors.time_occurred ? "time-error" : undefined}
+                                            aria-invalid={!!errors.time_occurred}
+                                        />
+                                        {errors.time_occurred && (
+                                            <p id="time-error" className="text-sm text-destructive" role="alert">
+                                                {errors.time_occurred.message}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="location">Location *</Label>
+                                    <CampusMapPicker
+                                        location={watchLocation ?? ""}
+                                        locations={locationOptions}
+                                        position={
+                                            mapFloor && mapX != null && mapY != null ? { floor: mapFloor, x: mapX, y: mapY } : null
+                                        }
+                                        onPick={(position, location) => {
+                                            setValue("map_floor", position.floor, { shouldDirty: true });
+                                            setValue("map_x", position.x, { shouldDirty: true });
+                                            setValue("map_y", position.y, { shouldDirty: true });
+                                            setValue("location", location, { shouldValidate: true, shouldDirty: true });
+                                        }}
+                                    />
+                                    <select
+                                        id="location"
+                                        {...register("location", { onChange: clearMapPosition })}
+                                        className={selectClassName}
+                                        aria-describedby={errors.location ? "location-error" : undefined}
+                                        aria-invalid={!!errors.location}
+                                    >
+                                        <option value="">Select a location...</option>
+                                        {locationOptions.map((loc) => (
+                                            <option key={loc} value={loc}>
+                                                {loc}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {errors.location && (
+                                        <p id="location-error" className="text-sm text-destructive" role="alert">
+                                            {errors.location.message}
+                                        </p>
+                                    )}
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label htmlFor="description">Description *</Label>
+                                    <Textarea
+                                        id="description"
+                                        rows={4}
+                                        {...register("description")}
+                                        aria-describedby={errors.description ? "desc-error" : undefined}
+                                        aria-invalid={!!errors.description}
+                                    />
+                                    {errors.description && (
+                                        <p id="desc-error" className="text-sm text-destructive" role="alert">
+                                            {errors.description.message}
+                                        </p>
+                                    )}
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label>Photo</Label>
+                                    {report.image_url && !selectedFile && (
+                                        <div className="relative h-40 w-40 rounded-lg overflow-hidden border bg-muted">
+                                            <Image src={report.image_url} alt={report.title} fill className="object-cover" sizes="160px" />
+                                        </div>
+                                    )}
+                                    <FileUpload onFileSelect={setSelectedFile} />
+                                    <p className="text-xs text-muted-foreground">
+                                        {report.image_url ? "Upload a new photo to replace the current one." : "Add a photo to help identify the item."}
+                                    </p>
+                                </div>
+
+                                {saveResult === "success" && (
+                                    <p className="flex items-center gap-2 text-sm text-emerald-700" role="status">
+                                        <CheckCircle2 className="h-4 w-4" /> Your changes were saved.
+                                    </p>
+                                )}
+                                {saveResult === "error" && (
+                                    <p className="text-sm text-destructive" role="alert">
+                                        Your changes could not be saved. Please try again.
+                                    </p>
+                                )}
+
+                                <Button type="submit" className="w-full" disabled={isSaving}>
+                                    {isSaving ? (
+                                        <>
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            Saving...
+                                        </>
+                                    ) : (
+                                        "Save Changes"
+                                    )}
+                                </Button>
+                            </form>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    report.status !== "withdrawn" && (
+                        <p className="text-sm text-muted-foreground">
+                            This report can no longer be edited because a claim is in progress or the item has been
+                            resolved. Contact the main office if something needs to change.
+                        </p>
+                    )
+                )}
+
+                {canWithdraw && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Undo2 className="h-5 w-5" /> Withdraw Report
+                            </CardTitle>
+                            <CardDescription>Take the report down if you no longer need it.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="withdraw_reason">Reason</Label>
+                                <select
+                                    id="withdraw_reason"
+                                    className={selectClassName}
+                                    value={withdrawReason}
+                                    onChange={(e) => setWithdrawReason(e.target.value)}
+                                >
+                                    {WITHDRAW_REASONS.map((reason) => (
+                                        <option key={reason} value={reason}>
+                                            {reason}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            {withdrawError && (
+                                <p className="text-sm text-destructive" role="alert">
+                                    The report could not be withdrawn. Please try again.
+                                </p>
+                            )}
+                            <Button variant="destructive" onClick={handleWithdraw} disabled={isWithdrawing}>
+                                {isWithdrawing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                Withdraw Report
+                            </Button>
+                        </CardContent>
+                    </Card>
+                )}
+            </motion.div>
+        </div>
+    );
+}
@@ -7,8 +7,10 @@ import { HandHelping, AlertTriangle, ArrowRight, Package, CheckCircle2 } from "l
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { getRecentItems, getAnalytics } from "@/lib/actions";
-import { Item } from "@/lib/types";
+import { getRecentItems } from "@/lib/actions";
+import { getAnalytics } from "@/lib/public-actions";
+import { browseHref } from "@/lib/browse-filters";
+import { PublicItem } from "@/lib/types";
 import ItemCard from "@/components/ItemCard";
 
 const containerVariants = {
@@ -25,14 +27,12 @@ const itemVariants = {
 };
 
 export default function HomePage() {
-  const [recentItems, setRecentItems] = useState<Item[]>([]);
+  const [recentItems, setRecentItems] = useState<PublicItem[]>([]);
   const [stats, setStats] = useState({
     totalItems: 0,
     lostItems: 0,
     foundItems: 0,
     returnedItems: 0,
-    pendingItems: 0,
-    totalClaims: 0,
   });
   const [loading, setLoading] = useState(true);
 
@@ -110,6 +110,18 @@ export default function HomePage() {
                 </Button>
               </Link>
             </motion.div>
+
+            <motion.p
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.5, duration: 0.5 }}
+              className="mt-6 text-white/70"
+            >
+              Lost something?{" "}
+              <Link href={browseHref({ type: "found" })} className="font-medium text-white underline underline-offset-4 hover:text-[hsl(var(--accent))]">
+                Check items that have already been found
+              </Link>
+            </motion.p>
           </motion.div>
         </div>
 
@@ -128,13 +140,16 @@ export default function HomePage() {
           className="grid grid-cols-2 md:grid-cols-4 gap-4"
         >
           {[
-            { icon: Package, label: "Total Items", value: stats.totalItems, color: "text-blue-500" },
-            { icon: AlertTriangle, label: "Lost Items", value: stats.lostItems, color: "text-red-500" },
-            { icon: HandHelping, label: "Found Items", value: stats.foundItems, color: "text-emerald-500" },
-            { icon: CheckCircle2, label: "Returned", value: stats.returnedItems, color: "text-[hsl(var(--accent))]" },
+            { icon: Package, label: "Total Items", value: stats.totalItems, color: "text-blue-500", href: browseHref({}) },
+            { icon: AlertTriangle, label: "Lost Items", value: stats.lostItems, color: "text-red-500", href: browseHref({ type: "lost" }) },
+            { icon: HandHelping, label: "Found Items", value: stats.foundItems, color: "text-emerald-500", href: browseHref({ type: "found" }) },
+            { icon: CheckCircle2, label: "Returned", value: stats.returnedItems, color: "text-[hsl(var(--accent))]", href: null },
           ].map((stat) => (
             <motion.div key={stat.label} variants={itemVariants}>
-              <Card className="border-border/50 shadow-sm">
+              <Card className={`border-border/50 shadow-sm ${stat.href ? "relative hover:shadow-md transition-shadow" : ""}`}>
+                {stat.href && (
+                  <Link href={stat.href} className="absolute inset-0 rounded-lg" aria-label={`Browse ${stat.label.toLowerCase()}`} />
+                )}
                 <CardContent className="flex items-center gap-3 p-4">
                   <div className={`${stat.color}`}>
                     <stat.icon className="h-8 w-8" />
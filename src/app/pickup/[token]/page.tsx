@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowLeft, CalendarClock, CheckCircle2, Loader2, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { getPickupDetails, schedulePickup } from "@/lib/public-actions";
+import { PickupDetails, PickupSlot } from "@/lib/types";
+
+export default function PickupPage() {
+    const params = useParams();
+    const token = params.token as string;
+    const [details, setDetails] = useState<PickupDetails | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitResult, setSubmitResult] = useState<"success" | "error" | null>(null);
+
+    useEffect(() => {
+        async function fetchDetails() {
+            try {
+                setDetails(await getPickupDetails(token));
+            } catch (error) {
+                console.error("Error fetching pickup details:", error);
+            } finally {
+                setLoading(false);
+            }
+        }
+        fetchDetails();
+    }, [token]);
+
+    const formatSlot = (slot: string, options: Intl.DateTimeFormatOptions) =>
+        new Date(slot).toLocaleString("en-US", { timeZone: details?.timeZone, ...options });
+
+    // Slots grouped by school-local day, in order
+    const slotsByDay = useMemo(() => {
+        const groups = new Map<string, PickupSlot[]>();
+        for (const slot of details?.slots ?? []) {
+            const day = new Date(slot.start).toLocaleDateString("en-US", {
+                timeZone: details?.timeZone,
+                weekday: "long",
+                month: "long",
+                day: "numeric",
+            });
+            groups.set(day, [...(groups.get(day) ?? []), slot]);
+        }
+        return Array.from(groups.entries());
+    }, [details]);
+
+    const handleBook = async () => {
+        if (!selectedSlot) return;
+        setIsSubmitting(true);
+        setSubmitResult(null);
+
+        try {
+            if (await schedulePickup(token, selectedSlot)) {
+                setSubmitResult("success");
+                setDetails(await getPickupDetails(token));
+                setSelectedSlot(null);
+            } else {
+                setSubmitResult("error");
+            }
+        } catch {
+            setSubmitResult("error");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                <p className="mt-4 text-muted-foreground">Loading your pickup...</p>
+            </div>
+        );
+    }
+
+    if (!details) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center max-w-xl">
+                <h1 className="text-2xl font-bold mb-4">Pickup Link Not Valid</h1>
+                <p className="text-muted-foreground mb-6">
+                    This link has expired or the claim is no longer approved. Please contact the main office.
+                </p>
+                <Link href="/browse">
+                    <Button variant="outline">
+                        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Browse
+                    </Button>
+                </Link>
+            </div>
+        );
+    }
+
+    if (details.releasedAt) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center max-w-xl">
+                <CheckCircle2 className="h-12 w-12 text-emerald-600 mx-auto mb-4" />
+                <h1 className="text-2xl font-bold mb-4">Item Collected</h1>
+                <p className="text-muted-foreground">
+                    {details.itemTitle} was handed over on{" "}
+                    {formatSlot(details.releasedAt, { month: "long", day: "numeric", hour: "numeric", minute: "2-digit" })}.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+                <h1 className="text-3xl font-bold mb-2">Collect Your Item</h1>
+                <p className="text-muted-foreground mb-6">
+                    Hi {details.claimantName}, your claim for <span className="font-medium text-foreground">{details.itemTitle}</span>{" "}
+                    was approved. Choose a time to pick it up and bring the pickup code from your email.
+                </p>
+
+                <Card className="mb-6">
+                    <CardContent className="flex flex-col sm:flex-row gap-4 p-4 text-sm">
+                        <span className="flex items-center gap-2">
+                            <MapPin className="h-4 w-4 text-muted-foreground" /> {details.location}
+                        </span>
+                        <span className="flex items-center gap-2">
+                            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                            {details.pickupSlot
+                                ? `Booked for ${formatSlot(details.pickupSlot, {
+                                      weekday: "long",
+                                      month: "long",
+                                      day: "numeric",
+                                      hour: "numeric",
+                                      minute: "2-digit",
+                                  })}`
+                                : "No time booked yet"}
+                        </span>
+                    </CardContent>
+                </Card>
+
+                {submitResult === "success" && (
+                    <p className="mb-4 p-3 rounded-lg bg-emerald-50 border border-emerald-200 text-sm text-emerald-800" role="status">
+                        Your pickup time is booked. We emailed you a confirmation.
+                    </p>
+                )}
+                {submitResult === "error" && (
+                    <p className="mb-4 text-sm text-destructive" role="alert">
+                        That time could not be booked. It may have just filled up — please choose another.
+                    </p>
+                )}
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>{details.pickupSlot ? "Change Your Pickup Time" : "Choose a Pickup Time"}</CardTitle>
+                        <CardDescription>Office hours, shown in school time</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        {slotsByDay.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No pickup times are open right now. Please contact the main office.
+                            </p>
+                        ) : (
+                            slotsByDay.map(([day, slots]) => (
+                                <fieldset key={day}>
+                                    <legend className="font-medium mb-2">{day}</legend>
+                                    <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                                        {slots.map((slot) => (
+                                            <Button
+                                                key={slot.start}
+                                                type="button"
+                                                size="sm"
+                                                variant={selectedSlot === slot.start ? "default" : "outline"}
+                                                disabled={!slot.available}
+                                                aria-pressed={selectedSlot === slot.start}
+                                                onClick={() => setSelectedSlot(slot.start)}
+                                                className={cn(!slot.available && "line-through")}
+                                            >
+                                                {formatSlot(slot.start, { hour: "numeric", minute: "2-digit" })}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                </fieldset>
+                            ))
+                        )}
+
+                        <Button className="w-full" onClick={handleBook} disabled={!selectedSlot || isSubmitting}>
+                            {isSubmitting ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Booking...
+                                </>
+                            ) : (
+                                "Book This Time"
+                            )}
+                        </Button>
+                    </CardContent>
+                </Card>
+            </motion.div>
+        </div>
+    );
+}
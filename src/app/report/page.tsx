@@ -25,8 +25,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import FileUpload from "@/components/FileUpload";
-import { CATEGORIES, LOCATIONS, fullReportSchema, ReportFormData } from "@/lib/types";
-import { createItem, uploadImage } from "@/lib/actions";
+import CampusMapPicker from "@/components/CampusMapPicker";
+import AttributeFields from "@/components/AttributeFields";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import ChallengeFields, { appendChallenge, challengeRequired, ChallengeValues, EMPTY_CHALLENGE } from "@/components/ChallengeFields";
+import { fullReportSchema, ReportFormData, SubmissionError } from "@/lib/types";
+import { createItem } from "@/lib/public-actions";
 
 const STEPS = [
     { title: "Item Details", description: "What did you lose or find?", icon: Package },
@@ -35,13 +39,24 @@ const STEPS = [
     { title: "Contact & Security", description: "How can we reach you?", icon: Mail },
 ];
 
+const SUBMIT_ERRORS: Record<SubmissionError, string> = {
+    invalid: "Some details were missing or invalid. Please check each step and try again.",
+    duplicate: "You have already reported this item.",
+    rate_limited: "Too many reports have been sent from here recently. Please wait an hour and try again.",
+    cooldown: "Too many reports have been sent from here recently. Please wait an hour and try again.",
+    challenge_failed: "Please complete the verification check and try again.",
+    error: "Failed to submit your report. Please try again.",
+};
+
 function ReportFormContent() {
     const router = useRouter();
     const searchParams = useSearchParams();
+    const { categories, locations } = useTaxonomy();
     const [currentStep, setCurrentStep] = useState(0);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [submitError, setSubmitError] = useState<string | null>(null);
+    const [challenge, setChallenge] = useState<ChallengeValues>(EMPTY_CHALLENGE);
 
     const {
         register,
@@ -54,8 +69,9 @@ function ReportFormContent() {
         resolver: zodResolver(fullReportSchema),
         defaultValues: {
             type: (searchParams.get("type") as "lost" | "found") || undefined,
-            category: undefined,
+            category: "",
             title: "",
+            attributes: {},
             description: "",
             date_occurred: "",
             time_occurred: "",
@@ -67,10 +83,19 @@ function ReportFormContent() {
 
     const watchType = watch("type");
     const watchCategory = watch("category");
+    const watchAttributes = watch("attributes");
+    const watchLocation = watch("location");
+    const [mapFloor, mapX, mapY] = watch(["map_floor", "map_x", "map_y"]);
+
+    const clearMapPosition = () => {
+        setValue("map_floor", null);
+        setValue("map_x", null);
+        setValue("map_y", null);
+    };
 
     const validateStep = async (): Promise<boolean> => {
         const fieldsPerStep: (keyof ReportFormData)[][] = [
-            ["type", "category", "title"],
+            ["type", "category", "title", "attributes"],
             ["date_occurred", "time_occurred", "location", "description"],
             [],
             ["contact_email", "security_answer"],
@@ -92,17 +117,25 @@ function ReportFormContent() {
         setSubmitError(null);
 
         try {
-            let imageUrl: string | null = null;
+            const formData = new FormData();
+            Object.entries(data).forEach(([key, value]) => {
+                if (typeof value === "string" || typeof value === "number") formData.append(key, String(value));
+            });
+            formData.append("attributes", JSON.stringify(data.attributes ?? {}));
             if (selectedFile) {
-                imageUrl = await uploadImage(selectedFile);
+                formData.append("image", selectedFile);
             }
+            appendChallenge(formData, challenge);
 
-            const item = await createItem(data, imageUrl);
+            const result = await createItem(formData);
 
-            if (item) {
-                router.push(`/items/${item.id}?new=true`);
+            if (result.ok) {
+                // Kept out of the URL so the private link does not end up in browser history
+                sessionStorage.setItem(`manage-link:${result.item.id}`, result.manageUrl);
+                router.push(`/items/${result.item.id}?new=true`);
             } else {
-                setSubmitError("Failed to submit your report. Please try again.");
+                setSubmitError(SUBMIT_ERRORS[result.error]);
+                setChallenge(EMPTY_CHALLENGE);
             }
         } catch {
             setSubmitError("An unexpected error occurred. Please try again.");
@@ -229,11 +262,15 @@ function ReportFormContent() {
                                         <div className="space-y-2">
                                             <Label>Category *</Label>
                                             <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                                                {CATEGORIES.map((cat) => (
+                                                {categories.map((cat) => (
                                                     <button
                                                         key={cat.value}
                                                         type="button"
-                                                        onClick={() => setValue("category", cat.value, { shouldValidate: true })}
+                                                        onClick={() => {
+                                                            // Each category has its own extra fields
+                                                            if (cat.value !== watchCategory) setValue("attributes", {});
+                                                            setValue("category", cat.value, { shouldValidate: true });
+                                                        }}
                                                         className={cn(
                                                             "p-3 rounded-lg border text-sm font-medium transition-all text-left",
                                                             watchCategory === cat.value
@@ -268,6 +305,12 @@ function ReportFormContent() {
                                                 </p>
                                             )}
                                         </div>
+
+                                        <AttributeFields
+                                            category={watchCategory}
+                                            values={watchAttributes ?? {}}
+                                            onChange={(values) => setValue("attributes", values, { shouldValidate: true })}
+                                        />
                                     </div>
                                 )}
 
@@ -309,15 +352,30 @@ function ReportFormContent() {
 
                                         <div className="space-y-2">
                                             <Label htmlFor="location">Location *</Label>
+                                            <CampusMapPicker
+                                                location={watchLocation}
+                                                locations={locations}
+                                                position={
+                                                    mapFloor && mapX != null && mapY != null
+                                                        ? { floor: mapFloor, x: mapX, y: mapY }
+                                                        : null
+                                                }
+                                                onPick={(position, location) => {
+                                                    setValue("map_floor", position.floor);
+                                                    setValue("map_x", position.x);
+                                                    setValue("map_y", position.y);
+                                                    setValue("location", location, { shouldValidate: true });
+                                                }}
+                                            />
                                             <select
                                                 id="location"
-                                                {...register("location")}
+                                                {...register("location", { onChange: clearMapPosition })}
                                                 className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
                                                 aria-describedby={errors.location ? "location-error" : undefined}
                                                 aria-invalid={!!errors.location}
                                             >
                                                 <option value="">Select a location...</option>
-                                                {LOCATIONS.map((loc) => (
+                                                {locations.map((loc) => (
                                                     <option key={loc} value={loc}>
                                                         {loc}
                                                     </option>
@@ -412,6 +470,8 @@ function ReportFormContent() {
                                             )}
                                         </div>
 
+                                        <ChallengeFields value={challenge} onChange={setChallenge} />
+
                                         {submitError && (
                                             <p className="text-sm text-destructive bg-destructive/10 p-3 rounded-lg" role="alert">
                                                 {submitError}
@@ -440,7 +500,11 @@ function ReportFormContent() {
                             Next <ChevronRight className="h-4 w-4" />
                         </Button>
                     ) : (
-                        <Button type="submit" disabled={isSubmitting} className="gap-2 bg-emerald-600 hover:bg-emerald-700">
+                        <Button
+                            type="submit"
+                            disabled={isSubmitting || (challengeRequired() && !challenge.token)}
+                            className="gap-2 bg-emerald-600 hover:bg-emerald-700"
+                        >
                             {isSubmitting ? (
                                 <>
                                     <Loader2 className="h-4 w-4 animate-spin" /> Submitting...
@@ -0,0 +1,302 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowLeft, CalendarClock, CheckCircle2, FileText, Loader2, MapPin, MessageSquare, Undo2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import FileUpload from "@/components/FileUpload";
+import ClaimStatusBadge from "@/components/ClaimStatusBadge";
+import { addClaimProof, getClaimTracking, withdrawClaim } from "@/lib/public-actions";
+import { ClaimStatus, ClaimTracking } from "@/lib/types";
+
+const STATUS_HELP: Record<ClaimStatus, string> = {
+    pending: "Staff are comparing your answer with the report. You will get an email when they decide.",
+    approved: "Your claim was approved. Follow the pickup instructions below to collect your item.",
+    denied: "Staff could not verify that this item is yours. If you think this is a mistake, please visit the main office.",
+    superseded:
+        "Staff approved another claim for this item, so yours was closed. If you still believe it is yours, please visit the main office.",
+    withdrawn: "You withdrew this claim.",
+    closed: "The person who reported this item withdrew their report, so your claim was closed. If you still believe it is yours, please visit the main office.",
+};
+
+export default function TrackClaimPage() {
+    const params = useParams();
+    const token = params.token as string;
+    const [tracking, setTracking] = useState<ClaimTracking | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [note, setNote] = useState("");
+    const [proofFile, setProofFile] = useState<File | null>(null);
+    const [isAddingProof, setIsAddingProof] = useState(false);
+    const [proofResult, setProofResult] = useState<"success" | "error" | null>(null);
+    const [isWithdrawing, setIsWithdrawing] = useState(false);
+    const [withdrawError, setWithdrawError] = useState(false);
+
+    const fetchTracking = useCallback(async () => {
+        try {
+            setTracking(await getClaimTracking(token));
+        } catch (error) {
+            console.error("Error fetching claim:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [token]);
+
+    useEffect(() => {
+        fetchTracking();
+    }, [fetchTracking]);
+
+    const handleAddProof = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsAddingProof(true);
+        setProofResult(null);
+
+        try {
+            const formData = new FormData();
+            formData.append("note", note);
+            if (proofFile) {
+                formData.append("image", proofFile);
+            }
+
+            if (await addClaimProof(token, formData)) {
+                setProofResult("success");
+                setNote("");
+                setProofFile(null);
+                await fetchTracking();
+            } else {
+                setProofResult("error");
+            }
+        } catch {
+            setProofResult("error");
+        } finally {
+            setIsAddingProof(false);
+        }
+    };
+
+    const handleWithdraw = async () => {
+        if (!confirm("Withdraw your claim? Staff will stop reviewing it and this cannot be undone.")) return;
+        setIsWithdrawing(true);
+        setWithdrawError(false);
+
+        try {
+            if (await withdrawClaim(token)) {
+                await fetchTracking();
+            } else {
+                setWithdrawError(true);
+            }
+        } catch {
+            setWithdrawError(true);
+        } finally {
+            setIsWithdrawing(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                <p className="mt-4 text-muted-foreground">Loading your claim...</p>
+            </div>
+        );
+    }
+
+    if (!tracking) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center max-w-xl">
+                <h1 className="text-2xl font-bold mb-4">Link Not Valid</h1>
+                <p className="text-muted-foreground mb-6">
+                    This link has expired or the claim has been removed. Please contact the main office.
+                </p>
+                <Link href="/browse">
+                    <Button variant="outline">
+                        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Browse
+                    </Button>
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold mb-2">Your Claim</h1>
+                    <p className="text-muted-foreground">
+                        Hi {tracking.claimantName}, this is your private page for your claim on{" "}
+                        <Link href={`/items/${tracking.itemId}`} className="font-medium text-foreground hover:underline">
+                            {tracking.itemTitle}
+                        </Link>
+                        , submitted {new Date(tracking.createdAt).toLocaleDateString()}.
+                    </p>
+                </div>
+
+                <Card>
+                    <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                        <div className="space-y-1.5">
+                            <CardTitle>Status</CardTitle>
+                            <CardDescription>
+                                {tracking.releasedAt
+                                    ? `You collected your item on ${new Date(tracking.releasedAt).toLocaleDateString()}.`
+                                    : STATUS_HELP[tracking.status]}
+                            </CardDescription>
+                        </div>
+                        {tracking.releasedAt ? (
+                            <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-100">Collected</Badge>
+                        ) : (
+                            <ClaimStatusBadge status={tracking.status} />
+                        )}
+                    </CardHeader>
+                    {tracking.staffMessage && (
+                        <CardContent>
+                            <div className="p-3 rounded-lg bg-muted text-sm">
+                                <p className="flex items-center gap-2 font-medium mb-1">
+                                    <MessageSquare className="h-4 w-4" /> Message from staff
+                                </p>
+                                <p className="whitespace-pre-line">{tracking.staffMessage}</p>
+                            </div>
+                        </CardContent>
+                    )}
+                </Card>
+
+                {tracking.pickup && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Pickup Instructions</CardTitle>
+                            <CardDescription>
+                                Bring the pickup code from your approval email and your student ID. Staff will check the code
+                                before handing the item over.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="flex flex-col sm:flex-row gap-4 text-sm">
+                                <span className="flex items-center gap-2">
+                                    <MapPin className="h-4 w-4 text-muted-foreground" /> {tracking.pickup.location}
+                                </span>
+                                <span className="flex items-center gap-2">
+                                    <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                                    {tracking.pickup.slot
+                                        ? `Booked for ${new Date(tracking.pickup.slot).toLocaleString(undefined, {
+                                              weekday: "long",
+                                              month: "long",
+                                              day: "numeric",
+                                              hour: "numeric",
+                                              minute: "2-digit",
+                                          })}`
+                                        : "No time booked yet"}
+                                </span>
+                            </div>
+                            <Link href={tracking.pickup.pickupUrl}>
+                                <Button variant="outline">
+                                    {tracking.pickup.slot ? "Change Pickup Time" : "Choose a Pickup Time"}
+                                </Button>
+                            </Link>
+                        </CardContent>
+                    </Card>
+                )}
+
+                {(tracking.proofs.length > 0 || tracking.canAddProof) && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Proof of Ownership</CardTitle>
+                            <CardDescription>
+                                Anything that shows the item is yours — a receipt, a photo of you with it, or details only
+                                the owner would know. Only staff can see what you add here.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            {tracking.proofs.length > 0 && (
+                                <ul className="space-y-3">
+                                    {tracking.proofs.map((proof) => (
+                                        <li key={proof.id} className="flex gap-3 text-sm">
+                                            <FileText className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                                            <div>
+                                                <p className="whitespace-pre-line">{proof.note ?? "Photo added with your claim"}</p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Added {new Date(proof.created_at).toLocaleString()}
+                                                    {proof.image_url && (
+                                                        <>
+                                                            {" · "}
+                                                            <a
+                                                                href={proof.image_url}
+                                                                target="_blank"
+                                                                rel="noopener noreferrer"
+                                                                className="text-primary hover:underline"
+                                                            >
+                                                                View photo
+                                                            </a>
+                                                        </>
+                                                    )}
+                                                </p>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            {tracking.canAddProof && (
+                                <form onSubmit={handleAddProof} className="space-y-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="proof_note">Explanation</Label>
+                                        <Textarea
+                                            id="proof_note"
+                                            placeholder="e.g. The case has a scratch on the back and my initials inside the lid"
+                                            rows={3}
+                                            maxLength={1000}
+                                            value={note}
+                                            onChange={(e) => setNote(e.target.value)}
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Photo (optional)</Label>
+                                        <FileUpload key={proofResult === "success" ? "reset" : "upload"} onFileSelect={setProofFile} />
+                                    </div>
+
+                                    {proofResult === "success" && (
+                                        <p className="flex items-center gap-2 text-sm text-emerald-700" role="status">
+                                            <CheckCircle2 className="h-4 w-4" /> Your proof was added to the claim.
+                                        </p>
+                                    )}
+                                    {proofResult === "error" && (
+                                        <p className="text-sm text-destructive" role="alert">
+                                            Your proof could not be added. Please write at least 10 characters and try again.
+                                        </p>
+                                    )}
+
+                                    <Button type="submit" disabled={isAddingProof || note.trim().length === 0}>
+                                        {isAddingProof ? (
+                                            <>
+                                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                                Adding...
+                                            </>
+                                        ) : (
+                                            "Add Proof"
+                                        )}
+                                    </Button>
+                                </form>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+
+                {tracking.canWithdraw && (
+                    <div className="space-y-2">
+                        {withdrawError && (
+                            <p className="text-sm text-destructive" role="alert">
+                                Your claim could not be withdrawn. Please try again.
+                            </p>
+                        )}
+                        <Button variant="outline" onClick={handleWithdraw} disabled={isWithdrawing} className="gap-2">
+                            {isWithdrawing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                            Withdraw My Claim
+                        </Button>
+                    </div>
+                )}
+            </motion.div>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import React from "react";
+import { Lock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { attributeFields, MAX_ATTRIBUTE_LENGTH } from "@/lib/attributes";
+import { ItemAttributes, ItemCategory } from "@/lib/types";
+
+const selectClassName =
+    "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+interface AttributeFieldsProps {
+    category: ItemCategory | null | undefined;
+    values: ItemAttributes;
+    onChange: (values: ItemAttributes) => void;
+}
+
+/** The optional extra fields for the chosen category, e.g. brand and model for electronics. */
+export default function AttributeFields({ category, values, onChange }: AttributeFieldsProps) {
+    const fields = attributeFields(category);
+    if (fields.length === 0) return null;
+
+    const setField = (key: string, value: string) => onChange({ ...values, [key]: value });
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <p className="text-sm font-medium">More details (optional)</p>
+                <p className="text-xs text-muted-foreground">These help match your report with the right item.</p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {fields.map((field) => (
+                    <div key={field.key} className="space-y-2">
+                        <Label htmlFor={`attr_${field.key}`} className="flex items-center gap-1.5">
+                            {field.label}
+                            {field.private && <Lock className="h-3 w-3 text-muted-foreground" aria-label="Only staff can see this" />}
+                        </Label>
+                        {field.options ? (
+                            <select
+                                id={`attr_${field.key}`}
+                                value={values[field.key] ?? ""}
+                                onChange={(e) => setField(field.key, e.target.value)}
+                                className={selectClassName}
+                            >
+                                <option value="">Not sure</option>
+                                {field.options.map((option) => (
+                                    <option key={option} value={option}>
+                                        {option}
+                                    </option>
+                                ))}
+                            </select>
+                        ) : (
+                            <Input
+                                id={`attr_${field.key}`}
+                                value={values[field.key] ?? ""}
+                                placeholder={field.placeholder}
+                                maxLength={MAX_ATTRIBUTE_LENGTH}
+                                onChange={(e) => setField(field.key, e.target.value)}
+                            />
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useId, useMemo, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import CampusFloorPlan from "@/components/CampusFloorPlan";
+import ItemCard from "@/components/ItemCard";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import { CAMPUS_FLOORS, CampusFloor, floorName, getFloor, itemPosition } from "@/lib/campus-map";
+import { PublicItem } from "@/lib/types";
+
+// Pins closer than this (as a fraction of the floor width) are drawn as one numbered cluster
+const CLUSTER_RADIUS = 0.05;
+// Radius of each lost item's glow in the heatmap, as a fraction of the floor width
+const HEAT_RADIUS = 0.09;
+
+interface Pin {
+    item: PublicItem;
+    x: number;
+    y: number;
+}
+
+interface Cluster {
+    x: number;
+    y: number;
+    items: PublicItem[];
+}
+
+function clusterPins(pins: Pin[], floor: CampusFloor): Cluster[] {
+    const clusters: Cluster[] = [];
+    const radius = CLUSTER_RADIUS * floor.width;
+
+    for (const pin of pins) {
+        const near = clusters.find((cluster) => Math.hypot(cluster.x - pin.x, cluster.y - pin.y) < radius);
+        if (near) {
+            // Keep the cluster at the average of its pins
+            const count = near.items.length;
+            near.x = (near.x * count + pin.x) / (count + 1);
+            near.y = (near.y * count + pin.y) / (count + 1);
+            near.items.push(pin.item);
+        } else {
+            clusters.push({ x: pin.x, y: pin.y, items: [pin.item] });
+        }
+    }
+
+    return clusters;
+}
+
+interface BrowseMapProps {
+    items: PublicItem[];
+}
+
+export default function BrowseMap({ items }: BrowseMapProps) {
+    const { zones } = useTaxonomy();
+    // useId() contains colons, which break url(#...) references
+    const heatId = `heat-${useId().replace(/:/g, "")}`;
+    const [chosenFloor, setChosenFloor] = useState<string | null>(null);
+    const [showHeatmap, setShowHeatmap] = useState(false);
+    // Keyed by the cluster's first item, so the selection clears itself when the results change
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+    const { pinsByFloor, offMap } = useMemo(() => {
+        const byFloor = new Map<string, PublicItem[]>();
+        let unplaced = 0;
+        for (const item of items) {
+            const position = itemPosition(item, zones);
+            if (!position) {
+                unplaced++;
+                continue;
+            }
+            const onFloor = byFloor.get(position.floor) ?? [];
+            onFloor.push(item);
+            byFloor.set(position.floor, onFloor);
+        }
+        return { pinsByFloor: byFloor, offMap: unplaced };
+    }, [items, zones]);
+
+    // Until a floor is chosen, open the one with the most results
+    const busiest = CAMPUS_FLOORS.reduce((best, f) =>
+        (pinsByFloor.get(f.id)?.length ?? 0) > (pinsByFloor.get(best.id)?.length ?? 0) ? f : best
+    );
+    const floor = getFloor(chosenFloor) ?? busiest;
+
+    const pins = useMemo(
+        () =>
+            (pinsByFloor.get(floor.id) ?? []).map((item) => {
+                const position = itemPosition(item, zones)!;
+                return { item, x: position.x * floor.width, y: position.y * floor.height };
+            }),
+        [pinsByFloor, floor, zones]
+    );
+    const clusters = useMemo(() => clusterPins(pins, floor), [pins, floor]);
+    const selected = clusters.find((cluster) => cluster.items[0].id === selectedKey) ?? null;
+    const lostPins = pins.filter((pin) => pin.item.type === "lost");
+    const pinRadius = floor.width / 70;
+
+    const chooseFloor = (id: string) => {
+        setChosenFloor(id);
+        setSelectedKey(null);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap gap-2" role="group" aria-label="Floor">
+                    {CAMPUS_FLOORS.map((f) => (
+                        <button
+                            key={f.id}
+                            onClick={() => chooseFloor(f.id)}
+                            className={cn(
+                                "px-3 py-1.5 rounded-full text-sm font-medium transition-all border",
+                                f.id === floor.id
+                                    ? "bg-primary text-primary-foreground border-primary"
+                                    : "bg-background border-border hover:border-primary/50"
+                            )}
+                            aria-pressed={f.id === floor.id}
+                        >
+                            {f.building} · {f.label} ({pinsByFloor.get(f.id)?.length ?? 0})
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={showHeatmap}
+                        onChange={(e) => setShowHeatmap(e.target.checked)}
+                        className="h-4 w-4 rounded border-input accent-[hsl(var(--primary))]"
+                    />
+                    Heatmap of where things get lost
+                </label>
+            </div>
+
+            <CampusFloorPlan floor={floor} zones={zones}>
+                {showHeatmap && (
+                    <g className="pointer-events-none" aria-hidden="true">
+                        <defs>
+                            <radialGradient id={heatId}>
+                                <stop offset="0%" stopColor="rgb(239 68 68)" stopOpacity={0.45} />
+                                <stop offset="100%" stopColor="rgb(239 68 68)" stopOpacity={0} />
+                            </radialGradient>
+                        </defs>
+                        {lostPins.map((pin) => (
+                            <circle
+                                key={pin.item.id}
+                                cx={pin.x}
+                                cy={pin.y}
+                                r={HEAT_RADIUS * floor.width}
+                                fill={`url(#${heatId})`}
+                            />
+                        ))}
+                    </g>
+                )}
+
+                {clusters.map((cluster) => {
+                    const single = cluster.items.length === 1 ? cluster.items[0] : null;
+                    const label = single
+                        ? `${single.type === "lost" ? "Lost" : "Found"}: ${single.title}`
+                        : `${cluster.items.length} items near ${cluster.items[0].location}`;
+                    return (
+                        <g
+                            key={cluster.items[0].id}
+                            role="button"
+                            tabIndex={0}
+                            aria-label={label}
+                            className="cursor-pointer focus:outline-none [&:focus>circle]:stroke-primary"
+                            onClick={() => setSelectedKey(cluster.items[0].id)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter" || e.key === " ") {
+                                    e.preventDefault();
+                                    setSelectedKey(cluster.items[0].id);
+                                }
+                            }}
+                        >
+                            <title>{label}</title>
+                            {single ? (
+                                <circle
+                                    cx={cluster.x}
+                                    cy={cluster.y}
+                                    r={pinRadius}
+                                    className={cn("stroke-white", single.type === "lost" ? "fill-red-500" : "fill-emerald-500")}
+                                    strokeWidth={3}
+                                />
+                            ) : (
+                                <>
+                                    <circle
+                                        cx={cluster.x}
+                                        cy={cluster.y}
+                                        r={pinRadius * (1.3 + Math.sqrt(cluster.items.length) * 0.35)}
+                                        className="fill-primary stroke-white"
+                                        strokeWidth={3}
+                                    />
+                                    <text
+                                        x={cluster.x}
+                                        y={cluster.y}
+                                        textAnchor="middle"
+                                        dominantBaseline="central"
+                                        className="fill-primary-foreground text-[20px] font-bold"
+                                    >
+                                        {cluster.items.length}
+                                    </text>
+                                </>
+                            )}
+                        </g>
+                    );
+                })}
+            </CampusFloorPlan>
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1.5">
+                    <span className="h-3 w-3 rounded-full bg-red-500" /> Lost
+                </span>
+                <span className="flex items-center gap-1.5">
+                    <span className="h-3 w-3 rounded-full bg-emerald-500" /> Found
+                </span>
+                <span className="flex items-center gap-1.5">
+                    <span className="h-3 w-3 rounded-full bg-primary" /> Several items; click to list them
+                </span>
+                {offMap > 0 && (
+                    <span>
+                        {offMap} result{offMap === 1 ? " is" : "s are"} not on the map (location &ldquo;Other&rdquo;)
+                    </span>
+                )}
+            </div>
+
+            {selected && (
+                <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h2 className="font-semibold">
+                            {selected.items.length} item{selected.items.length === 1 ? "" : "s"} on {floorName(floor)}
+                        </h2>
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedKey(null)} className="gap-1">
+                            <X className="h-4 w-4" /> Close
+                        </Button>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                        {selected.items.map((item, index) => (
+                            <ItemCard key={item.id} item={item} index={index} />
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+import { CampusFloor, MapPosition, MapZone, ZoneLocations, floorName } from "@/lib/campus-map";
+
+interface CampusFloorPlanProps {
+    floor: CampusFloor;
+    // Names the zones after their locations
+    zones: ZoneLocations;
+    // Zone drawn as selected, e.g. the location chosen in the form
+    highlight?: string | null;
+    // Makes the zones clickable (and focusable, picking the middle of the zone from the keyboard)
+    onPick?: (position: MapPosition, zone: MapZone) => void;
+    // Limits picking to the zones of these locations; the others are still drawn
+    pickable?: string[];
+    // Overlays such as pins, drawn in the floor's units
+    children?: React.ReactNode;
+    className?: string;
+}
+
+function zoneCenter(zone: MapZone): [number, number] {
+    const xs = zone.points.map(([x]) => x);
+    const ys = zone.points.map(([, y]) => y);
+    return [(Math.min(...xs) + Math.max(...xs)) / 2, (Math.min(...ys) + Math.max(...ys)) / 2];
+}
+
+export default function CampusFloorPlan({
+    floor,
+    zones,
+    highlight,
+    onPick,
+    pickable,
+    children,
+    className,
+}: CampusFloorPlanProps) {
+    const handleClick = (e: React.MouseEvent<SVGPolygonElement>, zone: MapZone) => {
+        if (!onPick) return;
+        const box = e.currentTarget.ownerSVGElement!.getBoundingClientRect();
+        onPick(
+            {
+                floor: floor.id,
+                x: Math.min(1, Math.max(0, (e.clientX - box.left) / box.width)),
+                y: Math.min(1, Math.max(0, (e.clientY - box.top) / box.height)),
+            },
+            zone
+        );
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<SVGPolygonElement>, zone: MapZone) => {
+        if (!onPick || (e.key !== "Enter" && e.key !== " ")) return;
+        e.preventDefault();
+        const [x, y] = zoneCenter(zone);
+        onPick({ floor: floor.id, x: x / floor.width, y: y / floor.height }, zone);
+    };
+
+    return (
+        <svg
+            viewBox={`0 0 ${floor.width} ${floor.height}`}
+            className={cn("w-full h-auto rounded-xl border bg-muted/30 select-none", className)}
+            role="group"
+            aria-label={`Map of ${floorName(floor)}`}
+        >
+            {floor.zones.map((zone) => {
+                const [cx, cy] = zoneCenter(zone);
+                const location = zones[zone.key];
+                const selected = !!location && location === highlight;
+                const canPick = !!onPick && !!location && (!pickable || pickable.includes(location));
+                return (
+                    <g key={zone.key}>
+                        <polygon
+                            points={zone.points.map((point) => point.join(",")).join(" ")}
+                            className={cn(
+                                "stroke-border transition-colors",
+                                selected ? "fill-primary/20 stroke-primary" : "fill-background",
+                                canPick && "cursor-crosshair hover:fill-primary/10 focus:outline-none focus:stroke-primary"
+                            )}
+                            strokeWidth={selected ? 4 : 2}
+                            onClick={canPick ? (e) => handleClick(e, zone) : undefined}
+                            onKeyDown={canPick ? (e) => handleKeyDown(e, zone) : undefined}
+                            tabIndex={canPick ? 0 : undefined}
+                            role={canPick ? "button" : undefined}
+                            aria-label={canPick ? `Pick ${location}` : location}
+                            aria-pressed={canPick ? selected : undefined}
+                        />
+                        <text
+                            x={cx}
+                            y={cy}
+                            textAnchor="middle"
+                            dominantBaseline="middle"
+                            className="fill-muted-foreground text-[22px] font-medium pointer-events-none"
+                        >
+                            {location}
+                        </text>
+                    </g>
+                );
+            })}
+            {children}
+        </svg>
+    );
+}
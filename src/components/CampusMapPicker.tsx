@@ -0,0 +1,78 @@
+"use client";
+
+import React, { useState } from "react";
+import { cn } from "@/lib/utils";
+import CampusFloorPlan from "@/components/CampusFloorPlan";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import { CAMPUS_FLOORS, MapPosition, getFloor, locationCenter } from "@/lib/campus-map";
+
+interface CampusMapPickerProps {
+    location: string;
+    // Active locations; zones of retired ones cannot be picked
+    locations: string[];
+    position: MapPosition | null;
+    onPick: (position: MapPosition, location: string) => void;
+}
+
+/** Floor tabs and a clickable plan; picking a spot also picks the location it falls in. */
+export default function CampusMapPicker({ location, locations, position, onPick }: CampusMapPickerProps) {
+    const { zones } = useTaxonomy();
+    // Chosen tab; until the visitor picks one, follow the pin or the selected location
+    const [chosenFloor, setChosenFloor] = useState<string | null>(null);
+    const floorId = chosenFloor ?? position?.floor ?? locationCenter(location, zones)?.floor ?? CAMPUS_FLOORS[0].id;
+    const floor = getFloor(floorId) ?? CAMPUS_FLOORS[0];
+    const markerRadius = floor.width / 60;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Floor">
+                {CAMPUS_FLOORS.map((f) => (
+                    <button
+                        key={f.id}
+                        type="button"
+                        onClick={() => setChosenFloor(f.id)}
+                        className={cn(
+                            "px-3 py-1.5 rounded-full text-xs font-medium transition-all border",
+                            f.id === floor.id
+                                ? "bg-primary text-primary-foreground border-primary"
+                                : "bg-background border-border hover:border-primary/50"
+                        )}
+                        aria-pressed={f.id === floor.id}
+                    >
+                        {f.building} · {f.label}
+                    </button>
+                ))}
+            </div>
+
+            <CampusFloorPlan
+                floor={floor}
+                zones={zones}
+                highlight={location}
+                pickable={locations}
+                onPick={(picked, zone) => onPick(picked, zones[zone.key])}
+            >
+                {position?.floor === floor.id && (
+                    <g className="pointer-events-none">
+                        <circle
+                            cx={position.x * floor.width}
+                            cy={position.y * floor.height}
+                            r={markerRadius * 1.8}
+                            className="fill-red-500/20"
+                        />
+                        <circle
+                            cx={position.x * floor.width}
+                            cy={position.y * floor.height}
+                            r={markerRadius}
+                            className="fill-red-500 stroke-white"
+                            strokeWidth={3}
+                        />
+                    </g>
+                )}
+            </CampusFloorPlan>
+
+            <p className="text-xs text-muted-foreground">
+                Optional: click where it happened to drop a pin. Not on the map? Choose the location from the list.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { CHALLENGE_FIELD, HONEYPOT_FIELD, STUB_CHALLENGE_TOKEN } from "@/lib/types";
+
+export interface ChallengeValues {
+    // Honeypot: hidden from people, so anything typed here came from a bot
+    website: string;
+    token: string | null;
+}
+
+export const EMPTY_CHALLENGE: ChallengeValues = { website: "", token: null };
+
+interface ChallengeFieldsProps {
+    value: ChallengeValues;
+    onChange: (value: ChallengeValues) => void;
+}
+
+const PROVIDER = process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER ?? "none";
+
+/** True when the form must wait for a CAPTCHA token before it can be submitted. */
+export function challengeRequired(): boolean {
+    return PROVIDER !== "none";
+}
+
+export function appendChallenge(formData: FormData, value: ChallengeValues) {
+    formData.append(HONEYPOT_FIELD, value.website);
+    if (value.token) formData.append(CHALLENGE_FIELD, value.token);
+}
+
+export default function ChallengeFields({ value, onChange }: ChallengeFieldsProps) {
+    return (
+        <>
+            <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+                <label htmlFor="challenge_website">Website</label>
+                <input
+                    id="challenge_website"
+                    type="text"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={value.website}
+                    onChange={(e) => onChange({ ...value, website: e.target.value })}
+                />
+            </div>
+
+            {PROVIDER === "stub" && (
+                <div className="flex items-center gap-3 rounded-md border px-3 py-3">
+                    <input
+                        id="challenge_stub"
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={value.token === STUB_CHALLENGE_TOKEN}
+                        onChange={(e) => onChange({ ...value, token: e.target.checked ? STUB_CHALLENGE_TOKEN : null })}
+                    />
+                    <Label htmlFor="challenge_stub" className="font-normal">
+                        I&apos;m not a robot
+                    </Label>
+                </div>
+            )}
+        </>
+    );
+}
@@ -3,7 +3,8 @@
 import React, { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Loader2, ShieldCheck } from "lucide-react";
+import Link from "next/link";
+import { ImagePlus, Loader2, ShieldCheck, X } from "lucide-react";
 import {
     Dialog,
     DialogContent,
@@ -16,8 +17,26 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { claimSchema, ClaimFormData } from "@/lib/types";
-import { createClaim } from "@/lib/actions";
+import ChallengeFields, { appendChallenge, challengeRequired, ChallengeValues, EMPTY_CHALLENGE } from "@/components/ChallengeFields";
+import {
+    claimSchema,
+    ClaimFormData,
+    SubmissionError,
+    ACCEPTED_IMAGE_TYPES,
+    MAX_CLAIM_PHOTOS,
+    MAX_IMAGE_SIZE,
+} from "@/lib/types";
+import { createClaim } from "@/lib/public-actions";
+
+const SUBMIT_ERRORS: Record<SubmissionError, string> = {
+    invalid: "This item is no longer open for claims, or some details were missing. Please refresh and try again.",
+    duplicate: "You already have a claim on this item under review. Check your email for its tracking link.",
+    rate_limited: "Too many claims have been sent from here recently. Please wait an hour and try again.",
+    cooldown:
+        "Several recent answers for this item did not match the report, so new claims are paused for a day. If it is yours, please visit the main office.",
+    challenge_failed: "Please complete the verification check and try again.",
+    error: "Something went wrong. Please try again.",
+};
 
 interface ClaimModalProps {
     itemId: string;
@@ -27,7 +46,11 @@ interface ClaimModalProps {
 export default function ClaimModal({ itemId, itemTitle }: ClaimModalProps) {
     const [open, setOpen] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [submitResult, setSubmitResult] = useState<"success" | "error" | null>(null);
+    const [submitResult, setSubmitResult] = useState<"success" | SubmissionError | null>(null);
+    const [trackingUrl, setTrackingUrl] = useState<string | null>(null);
+    const [photos, setPhotos] = useState<File[]>([]);
+    const [photoError, setPhotoError] = useState<string | null>(null);
+    const [challenge, setChallenge] = useState<ChallengeValues>(EMPTY_CHALLENGE);
 
     const {
         register,
@@ -38,24 +61,50 @@ export default function ClaimModal({ itemId, itemTitle }: ClaimModalProps) {
         resolver: zodResolver(claimSchema),
     });
 
+    const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = Array.from(e.target.files ?? []);
+        e.target.value = "";
+        setPhotoError(null);
+
+        if (selected.some((file) => !ACCEPTED_IMAGE_TYPES.includes(file.type))) {
+            setPhotoError("Please upload JPEG, PNG, WebP, or GIF images.");
+            return;
+        }
+        if (selected.some((file) => file.size > MAX_IMAGE_SIZE)) {
+            setPhotoError("Each photo must be under 5MB.");
+            return;
+        }
+        if (photos.length + selected.length > MAX_CLAIM_PHOTOS) {
+            setPhotoError(`You can attach up to ${MAX_CLAIM_PHOTOS} photos.`);
+            return;
+        }
+        setPhotos((prev) => [...prev, ...selected]);
+    };
+
     const onSubmit = async (data: ClaimFormData) => {
         setIsSubmitting(true);
         setSubmitResult(null);
 
         try {
-            const claim = await createClaim({
-                item_id: itemId,
-                claimant_name: data.claimant_name,
-                claimant_email: data.claimant_email,
-                security_answer: data.security_answer,
+            const formData = new FormData();
+            formData.append("item_id", itemId);
+            Object.entries(data).forEach(([key, value]) => {
+                if (typeof value === "string") formData.append(key, value);
             });
+            photos.forEach((photo) => formData.append("photos", photo));
+            appendChallenge(formData, challenge);
+
+            const result = await createClaim(formData);
 
-            if (claim) {
+            if (result.ok) {
+                setTrackingUrl(result.trackingUrl);
                 setSubmitResult("success");
+                setPhotos([]);
                 reset();
             } else {
-                setSubmitResult("error");
+                setSubmitResult(result.error);
             }
+            setChallenge(EMPTY_CHALLENGE);
         } catch {
             setSubmitResult("error");
         } finally {
@@ -75,7 +124,7 @@ export default function ClaimModal({ itemId, itemTitle }: ClaimModalProps) {
                 </Button>
             </DialogTrigger>
 
-            <DialogContent className="sm:max-w-md">
+            <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                     <DialogTitle>Claim: {itemTitle}</DialogTitle>
                     <DialogDescription>
@@ -94,6 +143,15 @@ export default function ClaimModal({ itemId, itemTitle }: ClaimModalProps) {
                             An administrator will review your claim and contact you at the
                             email address you provided.
                         </p>
+                        {trackingUrl && (
+                            <p className="text-sm text-muted-foreground mt-2">
+                                You can check its status, add more proof or withdraw it from your{" "}
+                                <Link href={trackingUrl} className="text-primary underline underline-offset-2">
+                                    private tracking page
+                                </Link>
+                                . We emailed you the link too.
+                            </p>
+                        )}
                         <Button className="mt-4" variant="outline" onClick={() => setOpen(false)}>
                             Close
                         </Button>
@@ -154,13 +212,85 @@ export default function ClaimModal({ itemId, itemTitle }: ClaimModalProps) {
                             )}
                         </div>
 
-                        {submitResult === "error" && (
+                        <div className="space-y-2">
+                            <Label htmlFor="explanation">Why is this yours? (optional)</Label>
+                            <Textarea
+                                id="explanation"
+                                placeholder="e.g. Where and when you last had it, what was inside, where you bought it..."
+                                {...register("explanation")}
+                                aria-describedby={errors.explanation ? "explanation-error" : undefined}
+                                aria-invalid={!!errors.explanation}
+                            />
+                            {errors.explanation && (
+                                <p id="explanation-error" className="text-sm text-destructive" role="alert">
+                                    {errors.explanation.message}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="claim_photos">Proof photos (optional)</Label>
+                            <p id="photos-help" className="text-xs text-muted-foreground">
+                                A photo of you with the item, a receipt, or the box it came in. Up to {MAX_CLAIM_PHOTOS}{" "}
+                                photos; only staff can see them.
+                            </p>
+                            {photos.length > 0 && (
+                                <ul className="space-y-1">
+                                    {photos.map((photo, index) => (
+                                        <li
+                                            key={`${photo.name}-${index}`}
+                                            className="flex items-center justify-between gap-2 rounded-md border px-3 py-1.5 text-sm"
+                                        >
+                                            <span className="truncate">{photo.name}</span>
+                                            <button
+                                                type="button"
+                                                onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                                                className="text-muted-foreground hover:text-foreground"
+                                                aria-label={`Remove ${photo.name}`}
+                                            >
+                                                <X className="h-4 w-4" />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {photos.length < MAX_CLAIM_PHOTOS && (
+                                <label
+                                    htmlFor="claim_photos"
+                                    className="flex cursor-pointer items-center justify-center gap-2 rounded-md border border-dashed px-3 py-3 text-sm text-muted-foreground hover:border-primary/50 hover:text-foreground focus-within:ring-2 focus-within:ring-ring"
+                                >
+                                    <ImagePlus className="h-4 w-4" /> Add photos
+                                    <input
+                                        id="claim_photos"
+                                        type="file"
+                                        accept={ACCEPTED_IMAGE_TYPES.join(",")}
+                                        multiple
+                                        className="sr-only"
+                                        onChange={handlePhotoSelect}
+                                        aria-describedby="photos-help"
+                                    />
+                                </label>
+                            )}
+                            {photoError && (
+                                <p className="text-sm text-destructive" role="alert">
+                                    {photoError}
+                                </p>
+                            )}
+                        </div>
+
+                        <ChallengeFields value={challenge} onChange={setChallenge} />
+
+                        {submitResult && (
                             <p className="text-sm text-destructive" role="alert">
-                                Something went wrong. Please try again.
+                                {SUBMIT_ERRORS[submitResult]}
                             </p>
                         )}
 
-                        <Button type="submit" className="w-full" disabled={isSubmitting}>
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isSubmitting || (challengeRequired() && !challenge.token)}
+                        >
                             {isSubmitting ? (
                                 <>
                                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -0,0 +1,24 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { ClaimStatus, CLAIM_STATUSES } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface ClaimStatusBadgeProps {
+    status: ClaimStatus;
+    className?: string;
+}
+
+const COLORS: Record<ClaimStatus, string> = {
+    pending: "bg-yellow-100 text-yellow-700 hover:bg-yellow-100",
+    approved: "bg-emerald-100 text-emerald-700 hover:bg-emerald-100",
+    denied: "bg-red-100 text-red-700 hover:bg-red-100",
+    superseded: "bg-orange-100 text-orange-700 hover:bg-orange-100",
+    withdrawn: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+    closed: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+};
+
+export default function ClaimStatusBadge({ status, className }: ClaimStatusBadgeProps) {
+    const label = CLAIM_STATUSES.find((s) => s.value === status)?.label ?? status;
+
+    return <Badge className={cn(COLORS[status], className)}>{label}</Badge>;
+}
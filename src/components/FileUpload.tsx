@@ -4,15 +4,13 @@ import React, { useState, useRef, useCallback } from "react";
 import { Upload, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { ACCEPTED_IMAGE_TYPES, MAX_IMAGE_SIZE } from "@/lib/types";
 
 interface FileUploadProps {
     onFileSelect: (file: File | null) => void;
     error?: string;
 }
 
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
-const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
-
 export default function FileUpload({ onFileSelect, error }: FileUploadProps) {
     const [preview, setPreview] = useState<string | null>(null);
     const [isDragOver, setIsDragOver] = useState(false);
@@ -29,12 +27,12 @@ export default function FileUpload({ onFileSelect, error }: FileUploadProps) {
                 return;
             }
 
-            if (!ACCEPTED_TYPES.includes(file.type)) {
+            if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
                 setFileError("Please upload a JPEG, PNG, WebP, or GIF image.");
                 return;
             }
 
-            if (file.size > MAX_FILE_SIZE) {
+            if (file.size > MAX_IMAGE_SIZE) {
                 setFileError("File size must be under 5MB.");
                 return;
             }
@@ -134,7 +132,7 @@ export default function FileUpload({ onFileSelect, error }: FileUploadProps) {
             <input
                 ref={inputRef}
                 type="file"
-                accept={ACCEPTED_TYPES.join(",")}
+                accept={ACCEPTED_IMAGE_TYPES.join(",")}
                 onChange={handleChange}
                 className="hidden"
                 aria-hidden="true"
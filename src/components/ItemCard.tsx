@@ -7,24 +7,18 @@ import { motion } from "framer-motion";
 import { MapPin, Calendar, Tag } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Item } from "@/lib/types";
+import ItemStatusBadge from "@/components/ItemStatusBadge";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import { PublicItem } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
 interface ItemCardProps {
-    item: Item;
+    item: PublicItem;
     index?: number;
 }
 
-const categoryLabels: Record<string, string> = {
-    electronics: "Electronics",
-    clothing: "Clothing",
-    books: "Books",
-    accessories: "Accessories",
-    sports: "Sports",
-    other: "Other",
-};
-
 export default function ItemCard({ item, index = 0 }: ItemCardProps) {
+    const { categoryLabel } = useTaxonomy();
     const isLost = item.type === "lost";
 
     return (
@@ -39,7 +33,7 @@ export default function ItemCard({ item, index = 0 }: ItemCardProps) {
                         {item.image_url ? (
                             <Image
                                 src={item.image_url}
-                                alt={`Photo of ${item.title} — ${isLost ? "Lost" : "Found"} ${categoryLabels[item.category] || item.category}`}
+                                alt={`Photo of ${item.title} — ${isLost ? "Lost" : "Found"} ${categoryLabel(item.category)}`}
                                 fill
                                 className="object-cover transition-transform duration-300 group-hover:scale-105"
                                 sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
@@ -61,10 +55,12 @@ export default function ItemCard({ item, index = 0 }: ItemCardProps) {
                             {isLost ? "LOST" : "FOUND"}
                         </Badge>
 
-                        {item.status === "pending" && (
-                            <Badge className="absolute top-3 right-3 text-xs bg-yellow-500 hover:bg-yellow-600 text-white shadow-md">
-                                Pending Review
-                            </Badge>
+                        {item.status !== "listed" && (
+                            <ItemStatusBadge
+                                status={item.status}
+                                variant="solid"
+                                className="absolute top-3 right-3 text-xs shadow-md"
+                            />
                         )}
                     </div>
 
@@ -90,7 +86,7 @@ export default function ItemCard({ item, index = 0 }: ItemCardProps) {
 
                         <div className="mt-3">
                             <Badge variant="secondary" className="text-xs">
-                                {categoryLabels[item.category] || item.category}
+                                {categoryLabel(item.category)}
                             </Badge>
                         </div>
                     </CardContent>
@@ -0,0 +1,30 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { ItemStatus, ITEM_STATUSES } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface ItemStatusBadgeProps {
+    status: ItemStatus;
+    // "solid" sits on top of photos and page headers, "soft" is for dense admin tables
+    variant?: "solid" | "soft";
+    className?: string;
+}
+
+const COLORS: Record<ItemStatus, { solid: string; soft: string }> = {
+    pending: { solid: "bg-yellow-500 hover:bg-yellow-600 text-white", soft: "bg-yellow-100 text-yellow-700 hover:bg-yellow-100" },
+    changes_requested: { solid: "bg-amber-600 hover:bg-amber-700 text-white", soft: "bg-amber-100 text-amber-800 hover:bg-amber-100" },
+    rejected: { solid: "bg-red-600 hover:bg-red-700 text-white", soft: "bg-red-100 text-red-700 hover:bg-red-100" },
+    listed: { solid: "bg-emerald-500 hover:bg-emerald-600 text-white", soft: "bg-emerald-100 text-emerald-700 hover:bg-emerald-100" },
+    claim_pending: { solid: "bg-orange-500 hover:bg-orange-600 text-white", soft: "bg-orange-100 text-orange-700 hover:bg-orange-100" },
+    awaiting_pickup: { solid: "bg-purple-500 hover:bg-purple-600 text-white", soft: "bg-purple-100 text-purple-700 hover:bg-purple-100" },
+    returned: { solid: "bg-blue-500 hover:bg-blue-600 text-white", soft: "bg-blue-100 text-blue-700 hover:bg-blue-100" },
+    donated: { solid: "bg-teal-500 hover:bg-teal-600 text-white", soft: "bg-teal-100 text-teal-700 hover:bg-teal-100" },
+    discarded: { solid: "bg-gray-500 hover:bg-gray-600 text-white", soft: "bg-gray-100 text-gray-700 hover:bg-gray-100" },
+    withdrawn: { solid: "bg-slate-500 hover:bg-slate-600 text-white", soft: "bg-slate-100 text-slate-700 hover:bg-slate-100" },
+};
+
+export default function ItemStatusBadge({ status, variant = "soft", className }: ItemStatusBadgeProps) {
+    const label = ITEM_STATUSES.find((s) => s.value === status)?.label ?? status;
+
+    return <Badge className={cn(COLORS[status]?.[variant], className)}>{label}</Badge>;
+}
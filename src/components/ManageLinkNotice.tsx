@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Check, Copy, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface ManageLinkNoticeProps {
+    itemId: string;
+}
+
+/** Shows the private "manage my report" link the report wizard stored for this browser tab. */
+export default function ManageLinkNotice({ itemId }: ManageLinkNoticeProps) {
+    const [manageUrl, setManageUrl] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        setManageUrl(sessionStorage.getItem(`manage-link:${itemId}`));
+    }, [itemId]);
+
+    if (!manageUrl) return null;
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(manageUrl);
+        setCopied(true);
+    };
+
+    return (
+        <div className="p-4 rounded-xl border bg-card text-left space-y-3">
+            <p className="flex items-center gap-2 font-medium">
+                <KeyRound className="h-4 w-4 text-muted-foreground" /> Your private link
+            </p>
+            <p className="text-sm text-muted-foreground">
+                Use this link to fix a mistake, add a photo or withdraw your report. We also emailed it to you.
+                Anyone with the link can change your report, so keep it to yourself.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+                <code className="flex-1 min-w-0 truncate rounded-md bg-muted px-3 py-2 text-xs">{manageUrl}</code>
+                <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={handleCopy} className="gap-1">
+                        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                        {copied ? "Copied" : "Copy"}
+                    </Button>
+                    <Link href={manageUrl}>
+                        <Button size="sm">Manage Report</Button>
+                    </Link>
+                </div>
+            </div>
+        </div>
+    );
+}
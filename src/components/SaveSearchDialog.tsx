@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useState } from "react";
+import { BellPlus, Loader2, MailCheck } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import ChallengeFields, { appendChallenge, challengeRequired, ChallengeValues, EMPTY_CHALLENGE } from "@/components/ChallengeFields";
+import { createSavedSearch } from "@/lib/public-actions";
+import { describeSearch } from "@/lib/browse-filters";
+import { savedSearchSchema, SavedSearchCriteria, SubmissionError } from "@/lib/types";
+
+const SUBMIT_ERRORS: Record<SubmissionError, string> = {
+    invalid: "Some details were missing. Please check the form and try again.",
+    duplicate: "You already saved this search. Check your email for the confirmation link.",
+    rate_limited: "Too many alerts have been saved from here recently. Please wait an hour and try again.",
+    cooldown: "Please wait a while before saving another alert.",
+    challenge_failed: "Please complete the verification check and try again.",
+    error: "Something went wrong. Please try again.",
+};
+
+const selectClassName =
+    "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+interface SaveSearchDialogProps {
+    // The browse filters in use; location and dates can still be changed in the dialog
+    criteria: SavedSearchCriteria;
+}
+
+export default function SaveSearchDialog({ criteria }: SaveSearchDialogProps) {
+    const { taxonomy, locations } = useTaxonomy();
+    const [open, setOpen] = useState(false);
+    const [email, setEmail] = useState("");
+    const [location, setLocation] = useState("");
+    const [dateFrom, setDateFrom] = useState("");
+    const [dateTo, setDateTo] = useState("");
+    const [challenge, setChallenge] = useState<ChallengeValues>(EMPTY_CHALLENGE);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [savedFor, setSavedFor] = useState<string | null>(null);
+
+    const values = {
+        email,
+        search: criteria.search || undefined,
+        type: criteria.type || undefined,
+        category: criteria.category || undefined,
+        location: location || undefined,
+        date_from: dateFrom || undefined,
+        date_to: dateTo || undefined,
+    };
+    const summary = describeSearch(
+        {
+            ...criteria,
+            location: location || null,
+            date_from: dateFrom || null,
+            date_to: dateTo || null,
+        },
+        taxonomy.categories
+    );
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) {
+            setLocation(criteria.location ?? "");
+            setDateFrom(criteria.date_from ?? "");
+            setDateTo(criteria.date_to ?? "");
+        } else {
+            setSavedFor(null);
+            setFormError(null);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setFormError(null);
+
+        const parsed = savedSearchSchema.safeParse(values);
+        if (!parsed.success) {
+            setFormError(parsed.error.issues[0].message);
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const formData = new FormData();
+            Object.entries(parsed.data).forEach(([key, value]) => {
+                if (value) formData.append(key, value);
+            });
+            appendChallenge(formData, challenge);
+
+            const result = await createSavedSearch(formData);
+            if (result.ok) {
+                setSavedFor(result.email);
+            } else {
+                setFormError(SUBMIT_ERRORS[result.error]);
+            }
+            setChallenge(EMPTY_CHALLENGE);
+        } catch {
+            setFormError(SUBMIT_ERRORS.error);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                    <BellPlus className="h-4 w-4" />
+                    <span className="hidden sm:inline">Alert Me</span>
+                </Button>
+            </DialogTrigger>
+
+            <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Get an email when it turns up</DialogTitle>
+                    <DialogDescription>
+                        We&apos;ll email you whenever a newly listed item matches this search.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {savedFor ? (
+                    <div className="text-center py-6">
+                        <div className="mx-auto w-12 h-12 rounded-full bg-emerald-100 flex items-center justify-center mb-4">
+                            <MailCheck className="h-6 w-6 text-emerald-600" />
+                        </div>
+                        <h3 className="font-semibold text-lg mb-2">Check your inbox</h3>
+                        <p className="text-sm text-muted-foreground">
+                            We sent a confirmation link to {savedFor}. The alert starts once you open it.
+                        </p>
+                        <Button className="mt-4" variant="outline" onClick={() => handleOpenChange(false)}>
+                            Close
+                        </Button>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div className="p-3 rounded-lg bg-muted text-sm">
+                            <span className="font-medium">Alert for: </span>
+                            {summary || "every new item (add a search, category or location)"}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="alert_location">Location (optional)</Label>
+                            <select
+                                id="alert_location"
+                                value={location}
+                                onChange={(e) => setLocation(e.target.value)}
+                                className={selectClassName}
+                            >
+                                <option value="">Anywhere</option>
+                                {locations.map((loc) => (
+                                    <option key={loc} value={loc}>
+                                        {loc}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label htmlFor="alert_date_from">From (optional)</Label>
+                                <Input
+                                    id="alert_date_from"
+                                    type="date"
+                                    value={dateFrom}
+                                    onChange={(e) => setDateFrom(e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="alert_date_to">To (optional)</Label>
+                                <Input
+                                    id="alert_date_to"
+                                    type="date"
+                                    value={dateTo}
+                                    onChange={(e) => setDateTo(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="alert_email">Your Email Address</Label>
+                            <Input
+                                id="alert_email"
+                                type="email"
+                                placeholder="you@school.edu"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                required
+                            />
+                        </div>
+
+                        <ChallengeFields value={challenge} onChange={setChallenge} />
+
+                        {formError && (
+                            <p className="text-sm text-destructive" role="alert">
+                                {formError}
+                            </p>
+                        )}
+
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isSubmitting || (challengeRequired() && !challenge.token)}
+                        >
+                            {isSubmitting ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                "Save Alert"
+                            )}
+                        </Button>
+                    </form>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { getTaxonomy } from "@/lib/actions";
+import { activeCategories, activeLocations, categoryLabel, EMPTY_TAXONOMY } from "@/lib/taxonomy";
+import { ZoneLocations, zoneLocations } from "@/lib/campus-map";
+import { CategoryEntry, ItemCategory, Taxonomy } from "@/lib/types";
+
+interface TaxonomyContextValue {
+    // Everything, retired entries included, for labels and the admin Settings tab
+    taxonomy: Taxonomy;
+    // What the report form and filters offer
+    categories: CategoryEntry[];
+    locations: string[];
+    // Which location each campus map zone belongs to, retired ones included
+    zones: ZoneLocations;
+    categoryLabel: (value: ItemCategory) => string;
+    loading: boolean;
+    refresh: () => Promise<void>;
+}
+
+const TaxonomyContext = createContext<TaxonomyContextValue | null>(null);
+
+/** Loads the categories and locations once per visit and shares them with every page. */
+export default function TaxonomyProvider({ children }: { children: React.ReactNode }) {
+    const [taxonomy, setTaxonomy] = useState<Taxonomy>(EMPTY_TAXONOMY);
+    const [loading, setLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        setTaxonomy(await getTaxonomy());
+        setLoading(false);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const value = useMemo(
+        () => ({
+            taxonomy,
+            categories: activeCategories(taxonomy),
+            locations: activeLocations(taxonomy),
+            zones: zoneLocations(taxonomy.locations),
+            categoryLabel: (category: ItemCategory) => categoryLabel(taxonomy.categories, category),
+            loading,
+            refresh,
+        }),
+        [taxonomy, loading, refresh]
+    );
+
+    return <TaxonomyContext.Provider value={value}>{children}</TaxonomyContext.Provider>;
+}
+
+export function useTaxonomy(): TaxonomyContextValue {
+    const context = useContext(TaxonomyContext);
+    if (!context) throw new Error("useTaxonomy must be used inside TaxonomyProvider");
+    return context;
+}
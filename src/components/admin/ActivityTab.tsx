@@ -0,0 +1,184 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { History, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { getAuditEvents, getStaffDirectory } from "@/lib/admin-actions";
+import { AuditAction, AuditEvent, AuditFilters, Item, AUDIT_ACTIONS } from "@/lib/types";
+
+interface ActivityTabProps {
+    items: Item[];
+}
+
+const selectClassName =
+    "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+function describeChange(event: AuditEvent): string {
+    const before = event.before?.status;
+    const after = event.after?.status;
+    if (before !== undefined && after !== undefined) return `${before} → ${after}`;
+    if (after !== undefined) return String(after);
+    return "";
+}
+
+export default function ActivityTab({ items }: ActivityTabProps) {
+    const [events, setEvents] = useState<AuditEvent[]>([]);
+    const [staffDirectory, setStaffDirectory] = useState<{ id: string; display_name: string }[]>([]);
+    const [filters, setFilters] = useState<AuditFilters>({});
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        getStaffDirectory()
+            .then(setStaffDirectory)
+            .catch((error) => console.error("Error fetching staff directory:", error));
+    }, []);
+
+    useEffect(() => {
+        async function fetchEvents() {
+            setLoading(true);
+            try {
+                setEvents(await getAuditEvents(filters));
+            } catch (error) {
+                console.error("Error fetching activity:", error);
+            } finally {
+                setLoading(false);
+            }
+        }
+        fetchEvents();
+    }, [filters]);
+
+    const actionLabel = (action: AuditAction) => AUDIT_ACTIONS.find((a) => a.value === action)?.label ?? action;
+    const hasFilters = Boolean(filters.actor || filters.itemId || filters.action);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" /> Activity Log
+                </CardTitle>
+                <CardDescription>Every status change, deletion, claim decision and sign-in</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <div className="space-y-1">
+                        <Label htmlFor="activity-actor" className="text-xs">Actor</Label>
+                        <select
+                            id="activity-actor"
+                            className={selectClassName}
+                            value={filters.actor ?? ""}
+                            onChange={(e) => setFilters({ ...filters, actor: e.target.value || undefined })}
+                        >
+                            <option value="">Everyone</option>
+                            <option value="public">Public visitors</option>
+                            {staffDirectory.map((member) => (
+                                <option key={member.id} value={member.id}>
+                                    {member.display_name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="activity-item" className="text-xs">Item</Label>
+                        <select
+                            id="activity-item"
+                            className={selectClassName}
+                            value={filters.itemId ?? ""}
+                            onChange={(e) => setFilters({ ...filters, itemId: e.target.value || undefined })}
+                        >
+                            <option value="">All items</option>
+                            {items.map((item) => (
+                                <option key={item.id} value={item.id}>
+                                    {item.title}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="activity-action" className="text-xs">Action</Label>
+                        <select
+                            id="activity-action"
+                            className={selectClassName}
+                            value={filters.action ?? ""}
+                            onChange={(e) =>
+                                setFilters({ ...filters, action: (e.target.value as AuditAction) || undefined })
+                            }
+                        >
+                            <option value="">All actions</option>
+                            {AUDIT_ACTIONS.map((action) => (
+                                <option key={action.value} value={action.value}>
+                                    {action.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    {hasFilters && (
+                        <div className="flex items-end">
+                            <Button variant="ghost" size="sm" onClick={() => setFilters({})} className="text-muted-foreground">
+                                Clear Filters
+                            </Button>
+                        </div>
+                    )}
+                </div>
+
+                {loading ? (
+                    <div className="py-8 text-center">
+                        <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+                    </div>
+                ) : events.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No activity recorded</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>When</TableHead>
+                                    <TableHead>Actor</TableHead>
+                                    <TableHead>Action</TableHead>
+                                    <TableHead>Item</TableHead>
+                                    <TableHead>Change</TableHead>
+                                    <TableHead>Reason</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {events.map((event) => (
+                                    <TableRow key={event.id}>
+                                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                                            {new Date(event.created_at).toLocaleString()}
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {event.actor_name}
+                                            {event.actor_type !== "staff" && (
+                                                <Badge variant="outline" className="ml-2 text-xs">{event.actor_type}</Badge>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="secondary">{actionLabel(event.action)}</Badge>
+                                        </TableCell>
+                                        <TableCell className="text-sm max-w-[200px] truncate">
+                                            {event.item_title ?? "—"}
+                                        </TableCell>
+                                        <TableCell className="text-sm capitalize">{describeChange(event)}</TableCell>
+                                        <TableCell className="text-sm text-muted-foreground max-w-[240px] truncate" title={event.reason ?? undefined}>
+                                            {event.reason ?? "—"}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,711 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import {
+    BarChart,
+    Bar,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ResponsiveContainer,
+    PieChart,
+    Pie,
+    Cell,
+    Legend,
+} from "recharts";
+import {
+    LogOut,
+    Loader2,
+    Check,
+    X,
+    Trash2,
+    RotateCcw,
+    Package,
+
+    AlertTriangle,
+    HandHelping,
+    CheckCircle2,
+    Clock,
+    TrendingUp,
+    Users,
+    GitCompareArrows,
+    History,
+    Archive,
+    CalendarClock,
+    Eye,
+    Paperclip,
+    ShieldCheck,
+    Settings,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    getAllItems,
+    getAllClaims,
+    updateItemStatus,
+    deleteItem,
+    deleteClaim,
+    updateClaimStatus,
+    getOpenMatches,
+    updateMatchStatus,
+    getStaffDirectory,
+    getStaffAnalytics,
+} from "@/lib/admin-actions";
+import { getAnalytics } from "@/lib/public-actions";
+import MatchScoreBadge from "@/components/admin/MatchScoreBadge";
+import MatchesTable from "@/components/admin/MatchesTable";
+import ActivityTab from "@/components/admin/ActivityTab";
+import TrashTab from "@/components/admin/TrashTab";
+import PickupsTab from "@/components/admin/PickupsTab";
+import ModerationQueue from "@/components/admin/ModerationQueue";
+import SettingsTab from "@/components/admin/SettingsTab";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import ClaimDetailSheet from "@/components/admin/ClaimDetailSheet";
+import ClaimStatusBadge from "@/components/ClaimStatusBadge";
+import ContestedClaims, { getContestedItems } from "@/components/admin/ContestedClaims";
+import ItemStatusMenu from "@/components/admin/ItemStatusMenu";
+import CustodyDialog from "@/components/admin/CustodyDialog";
+import ItemStatusBadge from "@/components/ItemStatusBadge";
+import { canChangeStatusManually } from "@/lib/lifecycle";
+import { hasPermission, Permission } from "@/lib/permissions";
+import { Item, Claim, ItemMatch, ItemStatus, StaffUser, ITEM_STATUSES, STAFF_ROLES } from "@/lib/types";
+
+const CHART_COLORS = ["#ef4444", "#22c55e", "#3b82f6", "#f59e0b"];
+
+export default function AdminDashboard({ staff }: { staff: StaffUser }) {
+    const router = useRouter();
+    const can = (permission: Permission) => hasPermission(staff.role, permission);
+    const roleLabel = STAFF_ROLES.find((r) => r.value === staff.role)?.label ?? staff.role;
+    const { categoryLabel } = useTaxonomy();
+    const [items, setItems] = useState<Item[]>([]);
+    const [claims, setClaims] = useState<Claim[]>([]);
+    const [matches, setMatches] = useState<ItemMatch[]>([]);
+    const [staffDirectory, setStaffDirectory] = useState<Pick<StaffUser, "id" | "display_name">[]>([]);
+    const [analytics, setAnalytics] = useState({
+        totalItems: 0,
+        lostItems: 0,
+        foundItems: 0,
+        returnedItems: 0,
+        pendingItems: 0,
+        totalClaims: 0,
+    });
+    const [loading, setLoading] = useState(true);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    // Controlled so the open tab survives the reload after each action
+    const [activeTab, setActiveTab] = useState("items");
+    const [viewingClaim, setViewingClaim] = useState<Claim | null>(null);
+    const [claimsView, setClaimsView] = useState<"all" | "contested">("all");
+
+    const fetchData = async () => {
+        setLoading(true);
+        try {
+            const [itemsData, claimsData, matchesData, analyticsData, staffAnalyticsData, staffData] = await Promise.all([
+                getAllItems(),
+                getAllClaims(),
+                getOpenMatches(),
+                getAnalytics(),
+                getStaffAnalytics(),
+                getStaffDirectory(),
+            ]);
+            setItems(itemsData);
+            setClaims(claimsData);
+            setMatches(matchesData);
+            setAnalytics({ ...analyticsData, ...staffAnalyticsData });
+            setStaffDirectory(staffData);
+        } catch (error) {
+            console.error("Error fetching admin data:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+    }, []);
+
+    // Server actions throw when the session has expired or the role lacks the permission.
+    // Refreshing re-runs the page's session check, which sends a signed-out user to the login page.
+    const runAction = async (id: string, action: () => Promise<boolean>, failure: string) => {
+        setActionLoading(id);
+        try {
+            if (!(await action())) alert(failure);
+            await fetchData();
+        } catch (error) {
+            console.error("Admin action failed:", error);
+            alert(`${failure} You may have been signed out, or your role cannot do this.`);
+            router.refresh();
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleStatusChange = async (id: string, status: ItemStatus, askReason = false) => {
+        let reason: string | undefined;
+        if (askReason) {
+            const label = ITEM_STATUSES.find((s) => s.value === status)?.label ?? status;
+            const answer = prompt(`Reason for moving this item to "${label}" (optional):`);
+            if (answer === null) return;
+            reason = answer;
+        }
+        await runAction(id, () => updateItemStatus(id, status, reason), "The item's status could not be changed.");
+    };
+
+    const handleDelete = async (id: string) => {
+        const reason = prompt("Why are you moving this item to the trash? It can be restored from the Trash tab.");
+        if (reason !== null) {
+            await runAction(id, () => deleteItem(id, reason), "The item could not be moved to the trash.");
+        }
+    };
+
+    const handleClaimDelete = async (id: string) => {
+        const reason = prompt("Why are you moving this claim to the trash? It can be restored from the Trash tab.");
+        if (reason !== null) {
+            await runAction(id, () => deleteClaim(id, reason), "The claim could not be moved to the trash.");
+        }
+    };
+
+    const handleClaimAction = async (id: string, status: "approved" | "denied") => {
+        if (status === "approved") {
+            const itemId = claims.find((c) => c.id === id)?.item_id;
+            const competing = claims.filter((c) => c.item_id === itemId && c.id !== id && c.status === "pending").length;
+            if (
+                competing > 0 &&
+                !confirm(`Approving this claim closes ${competing} other pending claim(s) on the same item as superseded. Continue?`)
+            ) {
+                return;
+            }
+        }
+        const message = prompt(
+            status === "approved"
+                ? "Message to the claimant, shown with their pickup details (optional):"
+                : "Message to the claimant explaining the decision (optional):"
+        );
+        if (message === null) return;
+        await runAction(
+            id,
+            () => updateClaimStatus(id, status, undefined, message),
+            "This claim could not be updated. It may already have been decided, or the item is on hold for another claim."
+        );
+    };
+
+    const handleMatchDecision = async (id: string, status: "confirmed" | "dismissed") => {
+        await runAction(id, () => updateMatchStatus(id, status), "The match could not be updated.");
+    };
+
+    const custodyLabel = (item: Item) => {
+        if (item.type !== "found") return "—";
+        const holder = item.custodian_id
+            ? staffDirectory.find((member) => member.id === item.custodian_id)?.display_name ?? "Staff member"
+            : "With finder";
+        return item.storage_location ? `${holder} · ${item.storage_location}` : holder;
+    };
+
+    // Pending claims first, strongest answer matches at the top
+    const sortedClaims = useMemo(
+        () =>
+            [...claims].sort((a, b) => {
+                if (a.status === "pending" && b.status !== "pending") return -1;
+                if (b.status === "pending" && a.status !== "pending") return 1;
+                if (a.status === "pending") return (b.match_score ?? -1) - (a.match_score ?? -1);
+                return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+            }),
+        [claims]
+    );
+
+    const contestedCount = useMemo(() => getContestedItems(claims).length, [claims]);
+
+    const handleLogout = async () => {
+        await fetch("/api/auth/logout", { method: "POST" });
+        router.replace("/admin/login");
+        router.refresh();
+    };
+
+    const barChartData = [
+        { name: "Lost", count: analytics.lostItems, fill: "#ef4444" },
+        { name: "Found", count: analytics.foundItems, fill: "#22c55e" },
+        { name: "Returned", count: analytics.returnedItems, fill: "#3b82f6" },
+        { name: "Pending", count: analytics.pendingItems, fill: "#f59e0b" },
+    ];
+
+    const pieChartData = [
+        { name: "Lost", value: analytics.lostItems },
+        { name: "Found", value: analytics.foundItems },
+        { name: "Returned", value: analytics.returnedItems },
+    ];
+
+    if (loading) {
+        return (
+            <div className="container mx-auto px-4 py-20 text-center">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                <p className="mt-4 text-muted-foreground">Loading dashboard data...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8">
+            <div className="flex items-center justify-between mb-8">
+                <motion.div initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }}>
+                    <h1 className="text-3xl font-bold flex items-center gap-3">
+                        Admin Dashboard
+                        <Badge variant="outline" className="text-xs font-medium">{roleLabel}</Badge>
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Signed in as {staff.display_name} — manage items, review claims, and view analytics
+                    </p>
+                </motion.div>
+                <Button variant="outline" onClick={handleLogout} className="gap-2">
+                    <LogOut className="h-4 w-4" /> Sign Out
+                </Button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                {[
+                    { icon: Package, label: "Total Items", value: analytics.totalItems, color: "text-blue-500" },
+                    { icon: Clock, label: "Pending Review", value: analytics.pendingItems, color: "text-yellow-500" },
+                    { icon: CheckCircle2, label: "Returned", value: analytics.returnedItems, color: "text-emerald-500" },
+                    { icon: Users, label: "Total Claims", value: analytics.totalClaims, color: "text-purple-500" },
+                ].map((stat) => (
+                    <Card key={stat.label}>
+                        <CardContent className="flex items-center gap-3 p-4">
+                            <stat.icon className={`h-8 w-8 ${stat.color}`} />
+                            <div>
+                                <p className="text-2xl font-bold">{stat.value}</p>
+                                <p className="text-xs text-muted-foreground">{stat.label}</p>
+                            </div>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+                <TabsList className="grid w-full grid-cols-9">
+                    <TabsTrigger value="items" className="gap-2">
+                        <Package className="h-4 w-4" /> Items ({items.length})
+                    </TabsTrigger>
+                    <TabsTrigger value="moderation" className="gap-2">
+                        <ShieldCheck className="h-4 w-4" /> Queue ({analytics.pendingItems})
+                    </TabsTrigger>
+                    <TabsTrigger value="claims" className="gap-2">
+                        <Users className="h-4 w-4" /> Claims ({claims.length})
+                    </TabsTrigger>
+                    <TabsTrigger value="matches" className="gap-2">
+                        <GitCompareArrows className="h-4 w-4" /> Matches ({matches.length})
+                    </TabsTrigger>
+                    <TabsTrigger value="pickups" className="gap-2">
+                        <CalendarClock className="h-4 w-4" /> Pickups
+                    </TabsTrigger>
+                    <TabsTrigger value="activity" className="gap-2">
+                        <History className="h-4 w-4" /> Activity
+                    </TabsTrigger>
+                    <TabsTrigger value="trash" className="gap-2">
+                        <Trash2 className="h-4 w-4" /> Trash
+                    </TabsTrigger>
+                    <TabsTrigger value="analytics" className="gap-2">
+                        <TrendingUp className="h-4 w-4" /> Analytics
+                    </TabsTrigger>
+                    <TabsTrigger value="settings" className="gap-2">
+                        <Settings className="h-4 w-4" /> Settings
+                    </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="items">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>All Items</CardTitle>
+                            <CardDescription>Manage reported lost and found items</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {items.length === 0 ? (
+                                <p className="text-center text-muted-foreground py-8">No items to display</p>
+                            ) : (
+                                <div className="overflow-x-auto">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Title</TableHead>
+                                                <TableHead>Type</TableHead>
+                                                <TableHead>Category</TableHead>
+                                                <TableHead>Location</TableHead>
+                                                <TableHead>Status</TableHead>
+                                                <TableHead>Custody</TableHead>
+                                                <TableHead>Date</TableHead>
+                                                <TableHead className="text-right">Actions</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {items.map((item) => (
+                                                <TableRow key={item.id}>
+                                                    <TableCell className="font-medium max-w-[200px] truncate">
+                                                        {item.title}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Badge
+                                                            className={
+                                                                item.type === "lost"
+                                                                    ? "bg-red-100 text-red-700 hover:bg-red-100"
+                                                                    : "bg-emerald-100 text-emerald-700 hover:bg-emerald-100"
+                                                            }
+                                                        >
+                                                            {item.type === "lost" ? (
+                                                                <><AlertTriangle className="mr-1 h-3 w-3" />Lost</>
+                                                            ) : (
+                                                                <><HandHelping className="mr-1 h-3 w-3" />Found</>
+                                                            )}
+                                                        </Badge>
+                                                    </TableCell>
+                                                    <TableCell>{categoryLabel(item.category)}</TableCell>
+                                                    <TableCell>{item.location}</TableCell>
+                                                    <TableCell>
+                                                        <ItemStatusBadge status={item.status} />
+                                                    </TableCell>
+                                                    <TableCell className="text-sm text-muted-foreground max-w-[180px] truncate">
+                                                        {custodyLabel(item)}
+                                                    </TableCell>
+                                                    <TableCell className="text-sm text-muted-foreground">
+                                                        {new Date(item.created_at).toLocaleDateString()}
+                                                    </TableCell>
+                                                    <TableCell className="text-right">
+                                                        <div className="flex justify-end gap-1">
+                                                            {item.status === "pending" && can("items:approve") && (
+                                                                <Button
+                                                                    size="sm"
+                                                                    variant="ghost"
+                                                                    onClick={() => handleStatusChange(item.id, "listed")}
+                                                                    disabled={actionLoading === item.id}
+                                                                    title="Approve"
+                                                                    className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                                                                >
+                                                                    {actionLoading === item.id ? (
+                                                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                                                    ) : (
+                                                                        <Check className="h-4 w-4" />
+                                                                    )}
+                                                                </Button>
+                                                            )}
+                                                            {canChangeStatusManually(item.status, "returned") && can("items:return") && (
+                                                                <Button
+                                                                    size="sm"
+                                                                    variant="ghost"
+                                                                    onClick={() => handleStatusChange(item.id, "returned")}
+                                                                    disabled={actionLoading === item.id}
+                                                                    title="Mark as Returned"
+                                                                    className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                                                                >
+                                                                    <RotateCcw className="h-4 w-4" />
+                                                                </Button>
+                                                            )}
+                                                            {item.type === "found" && can("items:custody") && (
+                                                                <CustodyDialog item={item} staffDirectory={staffDirectory} onSaved={fetchData}>
+                                                                    <Button
+                                                                        size="sm"
+                                                                        variant="ghost"
+                                                                        disabled={actionLoading === item.id}
+                                                                        title="Update Custody"
+                                                                    >
+                                                                        <Archive className="h-4 w-4" />
+                                                                    </Button>
+                                                                </CustodyDialog>
+                                                            )}
+                                                            <ItemStatusMenu
+                                                                status={item.status}
+                                                                can={can}
+                                                                disabled={actionLoading === item.id}
+                                                                onChange={(status) => handleStatusChange(item.id, status, true)}
+                                                            />
+                                                            {can("items:delete") && (
+                                                                <Button
+                                                                    size="sm"
+                                                                    variant="ghost"
+                                                                    onClick={() => handleDelete(item.id)}
+                                                                    disabled={actionLoading === item.id}
+                                                                    title="Move to Trash"
+                                                                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                                                >
+                                                                    <Trash2 className="h-4 w-4" />
+                                                                </Button>
+                                                            )}
+                                                        </div>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value="claims">
+                    <Card>
+                        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+                            <div className="space-y-1.5">
+                                <CardTitle>Claim Requests</CardTitle>
+                                <CardDescription>Review and manage item claim attempts</CardDescription>
+                            </div>
+                            <div className="flex gap-1 rounded-lg border p-1" role="group" aria-label="Claims view">
+                                <Button
+                                    size="sm"
+                                    variant={claimsView === "all" ? "secondary" : "ghost"}
+                                    aria-pressed={claimsView === "all"}
+                                    onClick={() => setClaimsView("all")}
+                                >
+                                    All Claims
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant={claimsView === "contested" ? "secondary" : "ghost"}
+                                    aria-pressed={claimsView === "contested"}
+                                    onClick={() => setClaimsView("contested")}
+                                >
+                                    Contested Items{contestedCount > 0 && ` (${contestedCount})`}
+                                </Button>
+                            </div>
+                        </CardHeader>
+                        <CardContent>
+                            {claimsView === "contested" ? (
+                                <ContestedClaims
+                                    claims={claims}
+                                    canDecide={can("claims:decide")}
+                                    actionLoading={actionLoading}
+                                    onDecide={handleClaimAction}
+                                    onView={setViewingClaim}
+                                />
+                            ) : claims.length === 0 ? (
+                                <p className="text-center text-muted-foreground py-8">No claims to review</p>
+                            ) : (
+                                <div className="overflow-x-auto">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Item</TableHead>
+                                                <TableHead>Claimant</TableHead>
+                                                <TableHead>Email</TableHead>
+                                                <TableHead>Answer Match</TableHead>
+                                                <TableHead>Status</TableHead>
+                                                <TableHead>Date</TableHead>
+                                                <TableHead className="text-right">Actions</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {sortedClaims.map((claim) => (
+                                                <TableRow key={claim.id}>
+                                                    <TableCell className="font-medium max-w-[150px] truncate">
+                                                        {claim.item?.title || "Unknown Item"}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <span className="inline-flex items-center gap-1">
+                                                            {claim.claimant_name}
+                                                            {(claim.explanation || (claim.proofs?.[0]?.count ?? 0) > 0) && (
+                                                                <Paperclip
+                                                                    className="h-3.5 w-3.5 text-muted-foreground"
+                                                                    aria-label="Has supporting evidence"
+                                                                />
+                                                            )}
+                                                        </span>
+                                                    </TableCell>
+                                                    <TableCell className="text-sm">{claim.claimant_email}</TableCell>
+                                                    <TableCell>
+                                                        <MatchScoreBadge score={claim.match_score} />
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <ClaimStatusBadge status={claim.status} />
+                                                    </TableCell>
+                                                    <TableCell className="text-sm text-muted-foreground">
+                                                        {new Date(claim.created_at).toLocaleDateString()}
+                                                    </TableCell>
+                                                    <TableCell className="text-right">
+                                                        <div className="flex justify-end gap-1">
+                                                            <Button
+                                                                size="sm"
+                                                                variant="ghost"
+                                                                onClick={() => setViewingClaim(claim)}
+                                                                title="View Claim Details"
+                                                            >
+                                                                <Eye className="h-4 w-4" />
+                                                            </Button>
+                                                            {claim.status === "pending" && can("claims:decide") && (
+                                                                <>
+                                                                    <Button
+                                                                        size="sm"
+                                                                        variant="ghost"
+                                                                        onClick={() => handleClaimAction(claim.id, "approved")}
+                                                                        disabled={actionLoading === claim.id}
+                                                                        title="Approve Claim"
+                                                                        className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                                                                    >
+                                                                        <Check className="h-4 w-4" />
+                                                                    </Button>
+                                                                    <Button
+                                                                        size="sm"
+                                                                        variant="ghost"
+                                                                        onClick={() => handleClaimAction(claim.id, "denied")}
+                                                                        disabled={actionLoading === claim.id}
+                                                                        title="Deny Claim"
+                                                                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                                                    >
+                                                                        <X className="h-4 w-4" />
+                                                                    </Button>
+                                                                </>
+                                                            )}
+                                                            {can("items:delete") && (
+                                                                <Button
+                                                                    size="sm"
+                                                                    variant="ghost"
+                                                                    onClick={() => handleClaimDelete(claim.id)}
+                                                                    disabled={actionLoading === claim.id}
+                                                                    title="Move to Trash"
+                                                                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                                                >
+                                                                    <Trash2 className="h-4 w-4" />
+                                                                </Button>
+                                                            )}
+                                                        </div>
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value="matches">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Possible Matches</CardTitle>
+                            <CardDescription>
+                                Lost and found reports that look like the same item, ranked by category, location, date and description
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <MatchesTable
+                                matches={matches}
+                                canReview={can("matches:review")}
+                                actionLoading={actionLoading}
+                                onDecision={handleMatchDecision}
+                            />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value="moderation">
+                    <ModerationQueue canModerate={can("items:approve")} onModerated={fetchData} />
+                </TabsContent>
+
+                <TabsContent value="pickups">
+                    <PickupsTab canRelease={can("items:return")} canReissue={can("claims:decide")} onReleased={fetchData} />
+                </TabsContent>
+
+                <TabsContent value="activity">
+                    <ActivityTab items={items} />
+                </TabsContent>
+
+                <TabsContent value="trash">
+                    <TrashTab canManage={can("items:delete")} onRestore={fetchData} />
+                </TabsContent>
+
+                <TabsContent value="settings">
+                    <SettingsTab canManage={can("settings:manage")} />
+                </TabsContent>
+
+                <TabsContent value="analytics">
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <TrendingUp className="h-5 w-5" /> Items Overview
+                                </CardTitle>
+                                <CardDescription>
+                                    Distribution of items by current status
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="h-80">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <BarChart data={barChartData}>
+                                            <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                                            <XAxis dataKey="name" className="text-xs" />
+                                            <YAxis allowDecimals={false} className="text-xs" />
+                                            <Tooltip
+                                                contentStyle={{
+                                                    backgroundColor: "hsl(var(--card))",
+                                                    border: "1px solid hsl(var(--border))",
+                                                    borderRadius: "8px",
+                                                }}
+                                            />
+                                            <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                                                {barChartData.map((entry, index) => (
+                                                    <Cell key={`cell-${index}`} fill={entry.fill} />
+                                                ))}
+                                            </Bar>
+                                        </BarChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Package className="h-5 w-5" /> Item Distribution
+                                </CardTitle>
+                                <CardDescription>
+                                    Proportional breakdown of all items
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="h-80">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <PieChart>
+                                            <Pie
+                                                data={pieChartData}
+                                                cx="50%"
+                                                cy="50%"
+                                                innerRadius={60}
+                                                outerRadius={100}
+                                                paddingAngle={5}
+                                                dataKey="value"
+                                                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                                                label={({ name, percent }: any) =>
+                                                    `${name} ${((percent ?? 0) * 100).toFixed(0)}%`
+                                                }
+                                            >
+                                                {pieChartData.map((_, index) => (
+                                                    <Cell
+                                                        key={`cell-${index}`}
+                                                        fill={CHART_COLORS[index % CHART_COLORS.length]}
+                                                    />
+                                                ))}
+                                            </Pie>
+                                            <Tooltip />
+                                            <Legend />
+                                        </PieChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    </div>
+                </TabsContent>
+            </Tabs>
+
+            <ClaimDetailSheet claim={viewingClaim} onClose={() => setViewingClaim(null)} />
+        </div>
+    );
+}
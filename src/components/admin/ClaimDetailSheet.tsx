@@ -0,0 +1,178 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Image from "next/image";
+import { Calendar, FileText, ImageIcon, Loader2, MapPin } from "lucide-react";
+import { Separator } from "@/components/ui/separator";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import MatchScoreBadge from "@/components/admin/MatchScoreBadge";
+import { getClaimProofsForStaff } from "@/lib/admin-actions";
+import { Claim, ClaimProof } from "@/lib/types";
+
+interface ClaimDetailSheetProps {
+    // The claim to show, or null while the drawer is closed
+    claim: Claim | null;
+    onClose: () => void;
+}
+
+export default function ClaimDetailSheet({ claim, onClose }: ClaimDetailSheetProps) {
+    const [proofs, setProofs] = useState<ClaimProof[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [proofsError, setProofsError] = useState(false);
+
+    useEffect(() => {
+        if (!claim) return;
+        setLoading(true);
+        setProofs([]);
+        setProofsError(false);
+        getClaimProofsForStaff(claim.id)
+            .then(setProofs)
+            .catch((error) => {
+                console.error("Error fetching claim proofs:", error);
+                setProofsError(true);
+            })
+            .finally(() => setLoading(false));
+    }, [claim]);
+
+    const item = claim?.item;
+    const photos = proofs.filter((proof) => proof.image_url);
+    const notes = proofs.filter((proof) => proof.note);
+
+    return (
+        <Sheet open={claim !== null} onOpenChange={(open) => !open && onClose()}>
+            <SheetContent className="w-full sm:max-w-3xl overflow-y-auto">
+                {claim && (
+                    <>
+                        <SheetHeader>
+                            <SheetTitle>Claim by {claim.claimant_name}</SheetTitle>
+                            <SheetDescription>
+                                {claim.claimant_email} · submitted {new Date(claim.created_at).toLocaleString()}
+                            </SheetDescription>
+                        </SheetHeader>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                            <section aria-labelledby="claim-item-heading" className="space-y-4">
+                                <h3 id="claim-item-heading" className="font-semibold">
+                                    Reported Item
+                                </h3>
+                                <div className="relative aspect-square rounded-xl overflow-hidden bg-muted border">
+                                    {item?.image_url ? (
+                                        <Image
+                                            src={item.image_url}
+                                            alt={item.title}
+                                            fill
+                                            className="object-cover"
+                                            sizes="(max-width: 768px) 100vw, 380px"
+                                        />
+                                    ) : (
+                                        <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                                            No photo
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="space-y-2 text-sm">
+                                    <p className="font-medium">{item?.title ?? "Unknown Item"}</p>
+                                    {item && (
+                                        <>
+                                            <p className="text-muted-foreground whitespace-pre-line">{item.description}</p>
+                                            <p className="flex items-center gap-2 text-muted-foreground">
+                                                <MapPin className="h-4 w-4" /> {item.location}
+                                            </p>
+                                            <p className="flex items-center gap-2 text-muted-foreground">
+                                                <Calendar className="h-4 w-4" /> {item.date_occurred}
+                                            </p>
+                                        </>
+                                    )}
+                                </div>
+                                <Separator />
+                                <div className="space-y-2 text-sm">
+                                    <p className="font-medium">Security answer</p>
+                                    <p className="text-muted-foreground">
+                                        Both answers are stored only as hashes, so they cannot be shown. This is how closely
+                                        the claimant&apos;s answer matched the reporter&apos;s:
+                                    </p>
+                                    <MatchScoreBadge score={claim.match_score} />
+                                </div>
+                            </section>
+
+                            <section aria-labelledby="claim-evidence-heading" className="space-y-4">
+                                <h3 id="claim-evidence-heading" className="font-semibold">
+                                    Claimant&apos;s Evidence
+                                </h3>
+
+                                <div className="space-y-1 text-sm">
+                                    <p className="font-medium">Explanation</p>
+                                    <p className="text-muted-foreground whitespace-pre-line">
+                                        {claim.explanation || "No explanation given."}
+                                    </p>
+                                </div>
+
+                                {loading ? (
+                                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                                ) : proofsError ? (
+                                    <p className="text-sm text-destructive" role="alert">
+                                        Could not load the proof of ownership. Your session may have expired.
+                                    </p>
+                                ) : (
+                                    <>
+                                        <div className="space-y-2 text-sm">
+                                            <p className="font-medium">Photos</p>
+                                            {photos.length === 0 ? (
+                                                <p className="text-muted-foreground">No photos attached.</p>
+                                            ) : (
+                                                <div className="grid grid-cols-2 gap-2">
+                                                    {photos.map((proof) => (
+                                                        <a
+                                                            key={proof.id}
+                                                            href={proof.image_url!}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="relative aspect-square rounded-lg overflow-hidden border bg-muted"
+                                                            title="Open full size"
+                                                        >
+                                                            {/* Signed URLs expire, so skip the image optimizer cache */}
+                                                            <Image
+                                                                src={proof.image_url!}
+                                                                alt={proof.note ?? "Proof photo"}
+                                                                fill
+                                                                unoptimized
+                                                                className="object-cover"
+                                                            />
+                                                        </a>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+
+                                        {notes.length > 0 && (
+                                            <div className="space-y-2 text-sm">
+                                                <p className="font-medium">Added later</p>
+                                                <ul className="space-y-3">
+                                                    {notes.map((proof) => (
+                                                        <li key={proof.id} className="flex gap-2">
+                                                            {proof.image_url ? (
+                                                                <ImageIcon className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                                                            ) : (
+                                                                <FileText className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                                                            )}
+                                                            <div>
+                                                                <p className="whitespace-pre-line">{proof.note}</p>
+                                                                <p className="text-xs text-muted-foreground">
+                                                                    {new Date(proof.created_at).toLocaleString()}
+                                                                </p>
+                                                            </div>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+                                    </>
+                                )}
+                            </section>
+                        </div>
+                    </>
+                )}
+            </SheetContent>
+        </Sheet>
+    );
+}
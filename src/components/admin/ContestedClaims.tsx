@@ -0,0 +1,122 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Check, Eye, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import ClaimStatusBadge from "@/components/ClaimStatusBadge";
+import ItemStatusBadge from "@/components/ItemStatusBadge";
+import MatchScoreBadge from "@/components/admin/MatchScoreBadge";
+import { ACTIVE_STATUSES } from "@/lib/lifecycle";
+import { Claim, Item } from "@/lib/types";
+
+interface ContestedClaimsProps {
+    claims: Claim[];
+    canDecide: boolean;
+    actionLoading: string | null;
+    onDecide: (id: string, status: "approved" | "denied") => void;
+    onView: (claim: Claim) => void;
+}
+
+/** Items with more than one live claim, each shown as a row of claim cards to compare. */
+export function getContestedItems(claims: Claim[]): { item: Item; claims: Claim[] }[] {
+    const groups = new Map<string, { item: Item; claims: Claim[] }>();
+    for (const claim of claims) {
+        if (!claim.item || claim.status === "withdrawn" || !ACTIVE_STATUSES.includes(claim.item.status)) continue;
+        const group = groups.get(claim.item_id) ?? { item: claim.item, claims: [] };
+        group.claims.push(claim);
+        groups.set(claim.item_id, group);
+    }
+
+    const pendingCount = (group: { claims: Claim[] }) => group.claims.filter((c) => c.status === "pending").length;
+
+    return Array.from(groups.values())
+        .filter((group) => group.claims.length > 1)
+        .map((group) => ({
+            ...group,
+            claims: [...group.claims].sort((a, b) => (b.match_score ?? -1) - (a.match_score ?? -1)),
+        }))
+        .sort((a, b) => pendingCount(b) - pendingCount(a));
+}
+
+export default function ContestedClaims({ claims, canDecide, actionLoading, onDecide, onView }: ContestedClaimsProps) {
+    const contested = useMemo(() => getContestedItems(claims), [claims]);
+
+    if (contested.length === 0) {
+        return <p className="text-center text-muted-foreground py-8">No items have competing claims</p>;
+    }
+
+    return (
+        <div className="space-y-6">
+            {contested.map(({ item, claims: itemClaims }) => (
+                <section key={item.id} aria-label={`Claims for ${item.title}`} className="rounded-xl border p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                        <div>
+                            <h3 className="font-semibold">{item.title}</h3>
+                            <p className="text-sm text-muted-foreground">
+                                {itemClaims.length} claims · {item.location}
+                            </p>
+                        </div>
+                        <ItemStatusBadge status={item.status} />
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {itemClaims.map((claim) => (
+                            <div key={claim.id} className="rounded-lg border bg-card p-3 flex flex-col gap-2 text-sm">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <p className="font-medium truncate">{claim.claimant_name}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{claim.claimant_email}</p>
+                                    </div>
+                                    <ClaimStatusBadge status={claim.status} />
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <MatchScoreBadge score={claim.match_score} />
+                                    {(claim.proofs?.[0]?.count ?? 0) > 0 && (
+                                        <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                                            <Paperclip className="h-3.5 w-3.5" /> {claim.proofs![0].count}
+                                        </span>
+                                    )}
+                                </div>
+                                <p className="text-muted-foreground line-clamp-3 flex-1">
+                                    {claim.explanation || "No explanation given."}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                    Submitted {new Date(claim.created_at).toLocaleDateString()}
+                                </p>
+                                <div className="flex gap-1 justify-end">
+                                    <Button size="sm" variant="ghost" onClick={() => onView(claim)} title="View Claim Details">
+                                        <Eye className="h-4 w-4" />
+                                    </Button>
+                                    {claim.status === "pending" && canDecide && (
+                                        <>
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={() => onDecide(claim.id, "approved")}
+                                                disabled={actionLoading === claim.id}
+                                                title="Approve Claim"
+                                                className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                                            >
+                                                <Check className="h-4 w-4" />
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={() => onDecide(claim.id, "denied")}
+                                                disabled={actionLoading === claim.id}
+                                                title="Deny Claim"
+                                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                            >
+                                                <X className="h-4 w-4" />
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { updateCustody } from "@/lib/admin-actions";
+import { Item, StaffUser, STORAGE_LOCATIONS } from "@/lib/types";
+
+interface CustodyDialogProps {
+    item: Pick<Item, "id" | "title" | "custodian_id" | "storage_location">;
+    staffDirectory: Pick<StaffUser, "id" | "display_name">[];
+    onSaved: (custody: Pick<Item, "custodian_id" | "storage_location">) => void;
+    // The button that opens the dialog
+    children: React.ReactNode;
+}
+
+const selectClassName =
+    "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+export default function CustodyDialog({ item, staffDirectory, onSaved, children }: CustodyDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [custodianId, setCustodianId] = useState(item.custodian_id ?? "");
+    const [storageLocation, setStorageLocation] = useState(item.storage_location ?? "");
+    const [note, setNote] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        if (next) {
+            setCustodianId(item.custodian_id ?? "");
+            setStorageLocation(item.storage_location ?? "");
+            setNote("");
+            setError(false);
+        }
+        setOpen(next);
+    };
+
+    const onSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(false);
+
+        const custody = { custodian_id: custodianId || null, storage_location: storageLocation.trim() || null };
+        try {
+            if (await updateCustody({ item_id: item.id, ...custody, note })) {
+                setOpen(false);
+                onSaved(custody);
+            } else {
+                setError(true);
+            }
+        } catch {
+            setError(true);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>{children}</DialogTrigger>
+
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Custody: {item.title}</DialogTitle>
+                    <DialogDescription>
+                        Record who has the item now and where it is stored. Each change is added to the chain of custody.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={onSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="custodian">Held by</Label>
+                        <select
+                            id="custodian"
+                            className={selectClassName}
+                            value={custodianId}
+                            onChange={(e) => setCustodianId(e.target.value)}
+                        >
+                            <option value="">Not handed in yet (with the finder)</option>
+                            {staffDirectory.map((member) => (
+                                <option key={member.id} value={member.id}>
+                                    {member.display_name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="storage_location">Storage shelf / bin</Label>
+                        <Input
+                            id="storage_location"
+                            list="storage-locations"
+                            placeholder="e.g. Main Office - Lost & Found Bin"
+                            maxLength={100}
+                            value={storageLocation}
+                            onChange={(e) => setStorageLocation(e.target.value)}
+                        />
+                        <datalist id="storage-locations">
+                            {STORAGE_LOCATIONS.map((location) => (
+                                <option key={location} value={location} />
+                            ))}
+                        </datalist>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="custody_note">Note (optional)</Label>
+                        <Textarea
+                            id="custody_note"
+                            placeholder="e.g. Picked up from the gym after practice"
+                            maxLength={500}
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                        />
+                    </div>
+
+                    {error && (
+                        <p className="text-sm text-destructive" role="alert">
+                            Could not save the custody change. Please try again, or sign in again if your session has expired.
+                        </p>
+                    )}
+
+                    <Button type="submit" className="w-full" disabled={isSubmitting}>
+                        {isSubmitting ? (
+                            <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Saving...
+                            </>
+                        ) : (
+                            "Save Custody"
+                        )}
+                    </Button>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
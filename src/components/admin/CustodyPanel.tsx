@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Archive, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import CustodyDialog from "@/components/admin/CustodyDialog";
+import { getCustodyHistory, getStaffDirectory } from "@/lib/admin-actions";
+import { hasPermission } from "@/lib/permissions";
+import { CustodyEvent, Item, StaffUser } from "@/lib/types";
+
+interface CustodyPanelProps {
+    item: Item;
+    staff: StaffUser;
+}
+
+export default function CustodyPanel({ item, staff }: CustodyPanelProps) {
+    const [custody, setCustody] = useState({ custodian_id: item.custodian_id, storage_location: item.storage_location });
+    const [history, setHistory] = useState<CustodyEvent[]>([]);
+    const [staffDirectory, setStaffDirectory] = useState<Pick<StaffUser, "id" | "display_name">[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const fetchHistory = useCallback(async () => {
+        try {
+            setHistory(await getCustodyHistory(item.id));
+        } catch (error) {
+            console.error("Error fetching custody history:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [item.id]);
+
+    useEffect(() => {
+        fetchHistory();
+        getStaffDirectory()
+            .then(setStaffDirectory)
+            .catch((error) => console.error("Error fetching staff directory:", error));
+    }, [fetchHistory]);
+
+    const holder = custody.custodian_id
+        ? staffDirectory.find((member) => member.id === custody.custodian_id)?.display_name ?? "Staff member"
+        : "Not handed in yet";
+
+    return (
+        <Card className="mt-8">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                        <Archive className="h-5 w-5" /> Custody
+                    </CardTitle>
+                    <CardDescription>Visible to staff only</CardDescription>
+                </div>
+                {hasPermission(staff.role, "items:custody") && (
+                    <CustodyDialog
+                        item={{ ...item, ...custody }}
+                        staffDirectory={staffDirectory}
+                        onSaved={(updated) => {
+                            setCustody(updated);
+                            fetchHistory();
+                        }}
+                    >
+                        <Button size="sm" variant="outline">Update Custody</Button>
+                    </CustodyDialog>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                        <p className="text-muted-foreground">Held by</p>
+                        <p className="font-medium">{holder}</p>
+                    </div>
+                    <div>
+                        <p className="text-muted-foreground">Stored in</p>
+                        <p className="font-medium">{custody.storage_location ?? "—"}</p>
+                    </div>
+                </div>
+
+                {loading ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                ) : history.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No hand-offs recorded yet.</p>
+                ) : (
+                    <ol className="space-y-3 border-l pl-4">
+                        {history.map((event) => (
+                            <li key={event.id} className="text-sm">
+                                <p className="font-medium">
+                                    {event.custodian_name ?? "Not handed in yet"}
+                                    {event.storage_location && (
+                                        <span className="font-normal text-muted-foreground"> · {event.storage_location}</span>
+                                    )}
+                                </p>
+                                {event.note && <p className="text-muted-foreground">{event.note}</p>}
+                                <p className="text-xs text-muted-foreground">
+                                    Recorded by {event.recorded_by_name} on {new Date(event.created_at).toLocaleString()}
+                                </p>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { GitCompareArrows } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { MatchBreakdownText, matchScoreClassName } from "@/components/admin/MatchesTable";
+import { ItemMatch } from "@/lib/types";
+
+interface ItemMatchesPanelProps {
+    itemId: string;
+    matches: ItemMatch[];
+}
+
+export default function ItemMatchesPanel({ itemId, matches }: ItemMatchesPanelProps) {
+    return (
+        <Card className="mt-8">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                    <GitCompareArrows className="h-5 w-5" /> Possible Matches
+                </CardTitle>
+                <CardDescription>Visible to staff only</CardDescription>
+            </CardHeader>
+            <CardContent>
+                {matches.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No candidate matches for this report.</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {matches.map((match) => {
+                            const other = match.lost_item_id === itemId ? match.found_item : match.lost_item;
+                            return (
+                                <li key={match.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                                    <div>
+                                        {other ? (
+                                            <Link href={`/items/${other.id}`} className="font-medium hover:underline">
+                                                {other.title}
+                                            </Link>
+                                        ) : (
+                                            <span className="text-muted-foreground">Unknown Item</span>
+                                        )}
+                                        <div>
+                                            <MatchBreakdownText match={match} />
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-col items-end gap-1">
+                                        <Badge className={matchScoreClassName(match.score)}>{match.score}%</Badge>
+                                        {match.status === "confirmed" && (
+                                            <span className="text-xs text-emerald-600">Confirmed</span>
+                                        )}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import React from "react";
+import { MoreHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { canChangeStatusManually, ITEM_TRANSITIONS, transitionPermission } from "@/lib/lifecycle";
+import { Permission } from "@/lib/permissions";
+import { ItemStatus, ITEM_STATUSES } from "@/lib/types";
+
+interface ItemStatusMenuProps {
+    status: ItemStatus;
+    can: (permission: Permission) => boolean;
+    disabled?: boolean;
+    onChange: (status: ItemStatus) => void;
+}
+
+// Lists every status the item can move to next that the signed-in role is allowed to set.
+// Pickups are left to the claim flows (see canChangeStatusManually).
+export default function ItemStatusMenu({ status, can, disabled, onChange }: ItemStatusMenuProps) {
+    const options = ITEM_TRANSITIONS[status].filter(
+        (next) => canChangeStatusManually(status, next) && can(transitionPermission(next))
+    );
+
+    if (options.length === 0) return null;
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="ghost" disabled={disabled} title="Change Status">
+                    <MoreHorizontal className="h-4 w-4" />
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                {options.map((next) => (
+                    <DropdownMenuItem key={next} onSelect={() => onChange(next)}>
+                        {ITEM_STATUSES.find((s) => s.value === next)?.label ?? next}
+                    </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
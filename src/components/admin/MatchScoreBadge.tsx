@@ -0,0 +1,30 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+
+interface MatchScoreBadgeProps {
+    score: number | null;
+}
+
+const LEVELS = [
+    { min: 70, label: "Strong", className: "bg-emerald-100 text-emerald-700 hover:bg-emerald-100" },
+    { min: 40, label: "Possible", className: "bg-yellow-100 text-yellow-700 hover:bg-yellow-100" },
+    { min: 0, label: "Weak", className: "bg-red-100 text-red-700 hover:bg-red-100" },
+];
+
+export default function MatchScoreBadge({ score }: MatchScoreBadgeProps) {
+    if (score === null) {
+        return (
+            <Badge variant="outline" className="text-muted-foreground" title="The item has no security answer on file">
+                No answer
+            </Badge>
+        );
+    }
+
+    const level = LEVELS.find((l) => score >= l.min) ?? LEVELS[LEVELS.length - 1];
+
+    return (
+        <Badge className={level.className} title={`Answer similarity: ${score}%`}>
+            {level.label} · {score}%
+        </Badge>
+    );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { Check, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Item, ItemMatch } from "@/lib/types";
+
+interface MatchesTableProps {
+    matches: ItemMatch[];
+    canReview: boolean;
+    actionLoading: string | null;
+    onDecision: (id: string, status: "confirmed" | "dismissed") => void;
+}
+
+function MatchedItem({ item }: { item?: Item }) {
+    if (!item) return <span className="text-muted-foreground">Unknown Item</span>;
+
+    return (
+        <div className="max-w-[220px]">
+            <Link href={`/items/${item.id}`} className="font-medium hover:underline line-clamp-1">
+                {item.title}
+            </Link>
+            <p className="text-xs text-muted-foreground">
+                {item.location} · {new Date(item.date_occurred).toLocaleDateString()}
+            </p>
+        </div>
+    );
+}
+
+export function matchScoreClassName(score: number): string {
+    if (score >= 70) return "bg-emerald-100 text-emerald-700 hover:bg-emerald-100";
+    if (score >= 55) return "bg-yellow-100 text-yellow-700 hover:bg-yellow-100";
+    return "bg-muted text-muted-foreground hover:bg-muted";
+}
+
+export function MatchBreakdownText({ match }: { match: ItemMatch }) {
+    const { category, location, date, text, attributes } = match.breakdown;
+    return (
+        <span className="text-xs text-muted-foreground">
+            Category {category} · Location {location} · Date {date} · Description {text}
+            {attributes !== undefined && <> · Details {attributes}</>}
+        </span>
+    );
+}
+
+export default function MatchesTable({ matches, canReview, actionLoading, onDecision }: MatchesTableProps) {
+    if (matches.length === 0) {
+        return <p className="text-center text-muted-foreground py-8">No possible matches right now</p>;
+    }
+
+    return (
+        <div className="overflow-x-auto">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Lost Report</TableHead>
+                        <TableHead>Found Report</TableHead>
+                        <TableHead>Score</TableHead>
+                        <TableHead>Why</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {matches.map((match) => (
+                        <TableRow key={match.id}>
+                            <TableCell>
+                                <MatchedItem item={match.lost_item} />
+                            </TableCell>
+                            <TableCell>
+                                <MatchedItem item={match.found_item} />
+                            </TableCell>
+                            <TableCell>
+                                <Badge className={matchScoreClassName(match.score)}>{match.score}%</Badge>
+                            </TableCell>
+                            <TableCell>
+                                <MatchBreakdownText match={match} />
+                            </TableCell>
+                            <TableCell className="text-right">
+                                {canReview && (
+                                    <div className="flex justify-end gap-1">
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            onClick={() => onDecision(match.id, "confirmed")}
+                                            disabled={actionLoading === match.id}
+                                            title="Confirm Match"
+                                            className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                                        >
+                                            {actionLoading === match.id ? (
+                                                <Loader2 className="h-4 w-4 animate-spin" />
+                                            ) : (
+                                                <Check className="h-4 w-4" />
+                                            )}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            onClick={() => onDecision(match.id, "dismissed")}
+                                            disabled={actionLoading === match.id}
+                                            title="Dismiss Match"
+                                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                        >
+                                            <X className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                )}
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
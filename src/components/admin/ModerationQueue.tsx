@@ -0,0 +1,333 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Image from "next/image";
+import { Check, Flag, Loader2, MessageSquareWarning, ShieldCheck, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import { getModerationQueue, moderateReport } from "@/lib/admin-actions";
+import {
+    ModerationDecision,
+    ModerationQueueItem,
+    ModerationReason,
+    MODERATION_FLAGS,
+    MODERATION_REASONS,
+} from "@/lib/types";
+
+interface ModerationQueueProps {
+    canModerate: boolean;
+    // Called after each decision so the dashboard can reload its counts and tables
+    onModerated: () => void;
+}
+
+const selectClassName =
+    "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+function waitingFor(createdAt: string): string {
+    const hours = Math.floor((Date.now() - new Date(createdAt).getTime()) / (60 * 60 * 1000));
+    if (hours < 1) return "Waiting less than an hour";
+    if (hours < 24) return `Waiting ${hours} hour${hours === 1 ? "" : "s"}`;
+    const days = Math.floor(hours / 24);
+    return `Waiting ${days} day${days === 1 ? "" : "s"}`;
+}
+
+export default function ModerationQueue({ canModerate, onModerated }: ModerationQueueProps) {
+    const { categoryLabel } = useTaxonomy();
+    const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [deciding, setDeciding] = useState<{ item: ModerationQueueItem; decision: "reject" | "request_changes" } | null>(
+        null
+    );
+    const [reason, setReason] = useState<ModerationReason | "">("");
+    const [note, setNote] = useState("");
+    const [decisionError, setDecisionError] = useState(false);
+
+    const fetchQueue = async () => {
+        setLoading(true);
+        try {
+            setQueue(await getModerationQueue());
+        } catch (error) {
+            console.error("Error fetching moderation queue:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchQueue();
+    }, []);
+
+    // False when the decision was not saved, including when the session has expired
+    const submitDecision = async (decision: ModerationDecision) => {
+        setActionLoading(decision.id);
+        try {
+            if (!(await moderateReport(decision))) return false;
+        } catch (error) {
+            console.error("Error saving moderation decision:", error);
+            return false;
+        } finally {
+            setActionLoading(null);
+        }
+
+        await fetchQueue();
+        onModerated();
+        return true;
+    };
+
+    const handleApprove = async (item: ModerationQueueItem) => {
+        if (
+            item.flags.length > 0 &&
+            !confirm("The pre-screen flagged this report. Approve it and show it publicly anyway?")
+        ) {
+            return;
+        }
+        if (!(await submitDecision({ id: item.id, decision: "approve" }))) {
+            alert("This report could not be approved. Another moderator may have already reviewed it, or your session has expired.");
+        }
+    };
+
+    const openDecision = (item: ModerationQueueItem, decision: "reject" | "request_changes") => {
+        setDeciding({ item, decision });
+        // Pre-select the reason that matches what the pre-screen found
+        const flagged = item.flags.some((flag) => flag.kind === "profanity")
+            ? "inappropriate"
+            : item.flags.length > 0
+              ? "personal_info"
+              : "";
+        setReason(flagged);
+        setNote("");
+        setDecisionError(false);
+    };
+
+    const handleDecision = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!deciding || !reason) return;
+
+        setDecisionError(false);
+        const saved = await submitDecision({
+            id: deciding.item.id,
+            decision: deciding.decision,
+            reason,
+            note: note.trim() || undefined,
+        });
+
+        if (saved) {
+            setDeciding(null);
+        } else {
+            setDecisionError(true);
+        }
+    };
+
+    const selectedReason = MODERATION_REASONS.find((r) => r.value === reason);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5" /> Moderation Queue
+                </CardTitle>
+                <CardDescription>
+                    New and edited reports waiting for review, oldest first. Nothing appears on the public site until it is
+                    approved.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {loading ? (
+                    <div className="py-8 text-center">
+                        <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+                    </div>
+                ) : queue.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No reports waiting for review</p>
+                ) : (
+                    <ul className="space-y-4">
+                        {queue.map((item) => (
+                            <li key={item.id} className="rounded-xl border p-4 flex flex-col sm:flex-row gap-4">
+                                <div className="relative w-full sm:w-32 aspect-square flex-shrink-0 rounded-lg overflow-hidden bg-muted border">
+                                    {item.image_url ? (
+                                        <Image
+                                            src={item.image_url}
+                                            alt={item.title}
+                                            fill
+                                            className="object-cover"
+                                            sizes="(max-width: 640px) 100vw, 128px"
+                                        />
+                                    ) : (
+                                        <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                                            No photo
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="flex-1 min-w-0 space-y-2">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <h3 className="font-semibold">{item.title}</h3>
+                                        <Badge
+                                            className={
+                                                item.type === "lost"
+                                                    ? "bg-red-100 text-red-700 hover:bg-red-100"
+                                                    : "bg-emerald-100 text-emerald-700 hover:bg-emerald-100"
+                                            }
+                                        >
+                                            {item.type === "lost" ? "Lost" : "Found"}
+                                        </Badge>
+                                        <Badge variant="outline">
+                                            {categoryLabel(item.category)}
+                                        </Badge>
+                                    </div>
+                                    <p className="text-sm text-muted-foreground">
+                                        {item.location} · {item.date_occurred} at {item.time_occurred} · {item.contact_email}
+                                    </p>
+                                    <p className="text-sm whitespace-pre-line">{item.description}</p>
+
+                                    {item.moderation_note && (
+                                        <p className="flex items-start gap-2 text-xs text-muted-foreground">
+                                            <MessageSquareWarning className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                                            <span>
+                                                Resubmitted after a moderator wrote: &ldquo;{item.moderation_note}&rdquo;
+                                            </span>
+                                        </p>
+                                    )}
+
+                                    {item.flags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1.5" aria-label="Pre-screen flags">
+                                            {item.flags.map((flag, index) => (
+                                                <Badge
+                                                    key={`${flag.kind}-${flag.field}-${index}`}
+                                                    className="bg-orange-100 text-orange-800 hover:bg-orange-100 gap-1 font-normal"
+                                                >
+                                                    <Flag className="h-3 w-3" />
+                                                    {MODERATION_FLAGS.find((f) => f.value === flag.kind)?.label} in {flag.field}:{" "}
+                                                    <span className="font-medium">{flag.match}</span>
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    <p className="text-xs text-muted-foreground">{waitingFor(item.created_at)}</p>
+                                </div>
+
+                                {canModerate && (
+                                    <div className="flex sm:flex-col gap-2 sm:w-40 flex-shrink-0">
+                                        <Button
+                                            size="sm"
+                                            onClick={() => handleApprove(item)}
+                                            disabled={actionLoading === item.id}
+                                            className="gap-1 bg-emerald-600 hover:bg-emerald-700"
+                                        >
+                                            {actionLoading === item.id ? (
+                                                <Loader2 className="h-4 w-4 animate-spin" />
+                                            ) : (
+                                                <Check className="h-4 w-4" />
+                                            )}
+                                            Approve
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => openDecision(item, "request_changes")}
+                                            disabled={actionLoading === item.id}
+                                            className="gap-1"
+                                        >
+                                            <MessageSquareWarning className="h-4 w-4" /> Request Changes
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => openDecision(item, "reject")}
+                                            disabled={actionLoading === item.id}
+                                            className="gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                        >
+                                            <X className="h-4 w-4" /> Reject
+                                        </Button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </CardContent>
+
+            <Dialog open={deciding !== null} onOpenChange={(open) => !open && setDeciding(null)}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>
+                            {deciding?.decision === "reject" ? "Reject" : "Request Changes"}: {deciding?.item.title}
+                        </DialogTitle>
+                        <DialogDescription>
+                            {deciding?.decision === "reject"
+                                ? "The reporter is emailed the reason below. They can still edit the report and send it back for review."
+                                : "The reporter is emailed the reason below with a link to edit their report, which then comes back to this queue."}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleDecision} className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="moderation_reason">Reason</Label>
+                            <select
+                                id="moderation_reason"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value as ModerationReason | "")}
+                                className={selectClassName}
+                            >
+                                <option value="">Choose a reason...</option>
+                                {MODERATION_REASONS.map((r) => (
+                                    <option key={r.value} value={r.value}>
+                                        {r.label}
+                                    </option>
+                                ))}
+                            </select>
+                            {selectedReason && (
+                                <p className="text-sm text-muted-foreground p-3 rounded-lg bg-muted">{selectedReason.message}</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="moderation_note">Extra note to the reporter (optional)</Label>
+                            <Textarea
+                                id="moderation_note"
+                                rows={3}
+                                maxLength={500}
+                                placeholder="e.g. Please remove the phone number from the description."
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                            />
+                        </div>
+                        {decisionError && (
+                            <p className="text-sm text-destructive" role="alert">
+                                The decision could not be saved. Another moderator may have already reviewed this report, or
+                                your session has expired.
+                            </p>
+                        )}
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            variant={deciding?.decision === "reject" ? "destructive" : "default"}
+                            disabled={!reason || actionLoading !== null}
+                        >
+                            {actionLoading ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : deciding?.decision === "reject" ? (
+                                "Reject & Notify Reporter"
+                            ) : (
+                                "Send Back to Reporter"
+                            )}
+                        </Button>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { CalendarClock, KeyRound, Loader2, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { getPendingPickups, reissuePickupCode, releaseItem } from "@/lib/admin-actions";
+import { Claim, ReleaseResult } from "@/lib/types";
+
+interface PickupsTabProps {
+    canRelease: boolean;
+    canReissue: boolean;
+    // Called after a hand-off so the dashboard can reload item statuses
+    onReleased: () => void;
+}
+
+const RELEASE_ERRORS: Record<Exclude<ReleaseResult, "released">, string> = {
+    invalid_code: "That code does not match. Check it with the claimant and try again.",
+    locked: "Too many wrong codes. Issue a new code to the claimant before releasing the item.",
+    error: "The item could not be released. Please try again.",
+};
+
+const SIGNED_OUT_ERROR = "That did not work. You may have been signed out, or your role cannot do this.";
+
+export default function PickupsTab({ canRelease, canReissue, onReleased }: PickupsTabProps) {
+    const [pickups, setPickups] = useState<Claim[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [releasing, setReleasing] = useState<Claim | null>(null);
+    const [code, setCode] = useState("");
+    const [releaseError, setReleaseError] = useState<string | null>(null);
+
+    const fetchPickups = async () => {
+        setLoading(true);
+        try {
+            setPickups(await getPendingPickups());
+        } catch (error) {
+            console.error("Error fetching pickups:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchPickups();
+    }, []);
+
+    const openRelease = (claim: Claim) => {
+        setReleasing(claim);
+        setCode("");
+        setReleaseError(null);
+    };
+
+    const handleRelease = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!releasing) return;
+
+        setActionLoading(releasing.id);
+        try {
+            const result = await releaseItem(releasing.id, code);
+            if (result === "released") {
+                setReleasing(null);
+                await fetchPickups();
+                onReleased();
+            } else {
+                setReleaseError(RELEASE_ERRORS[result]);
+            }
+        } catch {
+            setReleaseError(SIGNED_OUT_ERROR);
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleReissue = async (claim: Claim) => {
+        if (!confirm(`Email ${claim.claimant_name} a new pickup code? Their current code will stop working.`)) return;
+        setActionLoading(claim.id);
+        try {
+            if (!(await reissuePickupCode(claim.id))) alert("A new code could not be issued. Please try again.");
+            await fetchPickups();
+        } catch {
+            alert(SIGNED_OUT_ERROR);
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <CalendarClock className="h-5 w-5" /> Pickups
+                </CardTitle>
+                <CardDescription>
+                    Approved claims waiting to be collected. Check the claimant&apos;s pickup code before handing the item over.
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {loading ? (
+                    <div className="py-8 text-center">
+                        <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+                    </div>
+                ) : pickups.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No pickups waiting</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Pickup Time</TableHead>
+                                    <TableHead>Item</TableHead>
+                                    <TableHead>Claimant</TableHead>
+                                    <TableHead>Stored In</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {pickups.map((claim) => (
+                                    <TableRow key={claim.id}>
+                                        <TableCell className="text-sm whitespace-nowrap">
+                                            {claim.pickup_slot ? (
+                                                new Date(claim.pickup_slot).toLocaleString(undefined, {
+                                                    weekday: "short",
+                                                    month: "short",
+                                                    day: "numeric",
+                                                    hour: "numeric",
+                                                    minute: "2-digit",
+                                                })
+                                            ) : (
+                                                <Badge variant="outline" className="text-muted-foreground">Not booked</Badge>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="font-medium max-w-[180px] truncate">
+                                            {claim.item?.title || "Unknown Item"}
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {claim.claimant_name}
+                                            <span className="block text-muted-foreground">{claim.claimant_email}</span>
+                                        </TableCell>
+                                        <TableCell className="text-sm text-muted-foreground">
+                                            {claim.item?.storage_location ?? "—"}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <div className="flex justify-end gap-1">
+                                                {canRelease && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => openRelease(claim)}
+                                                        disabled={actionLoading === claim.id}
+                                                        className="gap-1"
+                                                    >
+                                                        <KeyRound className="h-4 w-4" /> Release
+                                                    </Button>
+                                                )}
+                                                {canReissue && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        onClick={() => handleReissue(claim)}
+                                                        disabled={actionLoading === claim.id}
+                                                        title="Issue New Code"
+                                                    >
+                                                        {actionLoading === claim.id ? (
+                                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                                        ) : (
+                                                            <RefreshCw className="h-4 w-4" />
+                                                        )}
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </CardContent>
+
+            <Dialog open={releasing !== null} onOpenChange={(open) => !open && setReleasing(null)}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Release: {releasing?.item?.title}</DialogTitle>
+                        <DialogDescription>
+                            Ask {releasing?.claimant_name} for the pickup code from their approval email.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <form onSubmit={handleRelease} className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="pickup_code">Pickup Code</Label>
+                            <Input
+                                id="pickup_code"
+                                placeholder="ABCD-2345"
+                                autoComplete="off"
+                                className="font-mono uppercase tracking-widest"
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                aria-describedby={releaseError ? "release-error" : undefined}
+                                aria-invalid={!!releaseError}
+                            />
+                            {releaseError && (
+                                <p id="release-error" className="text-sm text-destructive" role="alert">
+                                    {releaseError}
+                                </p>
+                            )}
+                        </div>
+                        <Button type="submit" className="w-full" disabled={!code.trim() || actionLoading !== null}>
+                            {actionLoading ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Checking...
+                                </>
+                            ) : (
+                                "Verify & Mark Returned"
+                            )}
+                        </Button>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import React, { useState } from "react";
+import { Archive, ArrowDown, ArrowUp, Check, Loader2, Pencil, Plus, RotateCcw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { useTaxonomy } from "@/components/TaxonomyProvider";
+import {
+    addTaxonomyEntry,
+    moveTaxonomyEntry,
+    renameTaxonomyEntry,
+    setTaxonomyEntryRetired,
+} from "@/lib/admin-actions";
+import { TaxonomyKind } from "@/lib/types";
+
+interface Entry {
+    id: string;
+    name: string;
+    retired_at: string | null;
+    // Locations only: the campus map zone linked to it
+    map_zone?: string | null;
+}
+
+interface TaxonomyListProps {
+    kind: TaxonomyKind;
+    title: string;
+    description: string;
+    entries: Entry[];
+    canManage: boolean;
+    onChanged: () => Promise<void>;
+}
+
+function TaxonomyList({ kind, title, description, entries, canManage, onChanged }: TaxonomyListProps) {
+    const [newName, setNewName] = useState("");
+    const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const runAction = async (key: string, action: () => Promise<boolean>, failure: string): Promise<boolean> => {
+        setActionLoading(key);
+        setError(null);
+        try {
+            const ok = await action();
+            if (!ok) setError(failure);
+            await onChanged();
+            return ok;
+        } catch {
+            setError(failure);
+            return false;
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const added = await runAction(
+            "new",
+            () => addTaxonomyEntry({ kind, name: newName }),
+            "Could not add it. Names must be 2–50 characters and not already in the list (restore a retired one instead)."
+        );
+        if (added) setNewName("");
+    };
+
+    const handleRename = async () => {
+        if (!editing) return;
+        const renamed = await runAction(
+            editing.id,
+            () => renameTaxonomyEntry({ kind, id: editing.id, name: editing.name }),
+            "Could not rename it. Names must be 2–50 characters and not already in the list."
+        );
+        if (renamed) setEditing(null);
+    };
+
+    const handleRetire = (entry: Entry) => {
+        const retire = !entry.retired_at;
+        if (retire && !confirm(`Retire "${entry.name}"? It will no longer be offered, but existing reports keep it.`)) return;
+        runAction(
+            entry.id,
+            () => setTaxonomyEntryRetired({ kind, id: entry.id, retired: retire }),
+            retire ? "Could not retire it. At least one entry must stay active." : "Could not restore it."
+        );
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>{title}</CardTitle>
+                <CardDescription>{description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="overflow-x-auto">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Name</TableHead>
+                                {canManage && <TableHead className="text-right">Actions</TableHead>}
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {entries.map((entry, index) => (
+                                <TableRow key={entry.id} className={entry.retired_at ? "opacity-60" : undefined}>
+                                    <TableCell>
+                                        {editing?.id === entry.id ? (
+                                            <Input
+                                                value={editing.name}
+                                                onChange={(e) => setEditing({ id: entry.id, name: e.target.value })}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === "Enter") handleRename();
+                                                    if (e.key === "Escape") setEditing(null);
+                                                }}
+                                                aria-label={`New name for ${entry.name}`}
+                                                className="h-8"
+                                                autoFocus
+                                            />
+                                        ) : (
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <span className="font-medium">{entry.name}</span>
+                                                {entry.retired_at && <Badge variant="secondary">Retired</Badge>}
+                                                {entry.map_zone && (
+                                                    <Badge variant="outline">On map</Badge>
+                                                )}
+                                            </div>
+                                        )}
+                                    </TableCell>
+                                    {canManage && (
+                                        <TableCell>
+                                            <div className="flex justify-end gap-1">
+                                                {editing?.id === entry.id ? (
+                                                    <>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            onClick={handleRename}
+                                                            disabled={actionLoading === entry.id}
+                                                            title="Save"
+                                                        >
+                                                            {actionLoading === entry.id ? (
+                                                                <Loader2 className="h-4 w-4 animate-spin" />
+                                                            ) : (
+                                                                <Check className="h-4 w-4" />
+                                                            )}
+                                                        </Button>
+                                                        <Button size="sm" variant="ghost" onClick={() => setEditing(null)} title="Cancel">
+                                                            <X className="h-4 w-4" />
+                                                        </Button>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            onClick={() =>
+                                                                runAction(
+                                                                    entry.id,
+                                                                    () => moveTaxonomyEntry({ kind, id: entry.id, direction: "up" }),
+                                                                    "Could not move it."
+                                                                )
+                                                            }
+                                                            disabled={index === 0 || actionLoading !== null}
+                                                            title="Move up"
+                                                        >
+                                                            <ArrowUp className="h-4 w-4" />
+                                                        </Button>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            onClick={() =>
+                                                                runAction(
+                                                                    entry.id,
+                                                                    () => moveTaxonomyEntry({ kind, id: entry.id, direction: "down" }),
+                                                                    "Could not move it."
+                                                                )
+                                                            }
+                                                            disabled={index === entries.length - 1 || actionLoading !== null}
+                                                            title="Move down"
+                                                        >
+                                                            <ArrowDown className="h-4 w-4" />
+                                                        </Button>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            onClick={() => setEditing({ id: entry.id, name: entry.name })}
+                                                            disabled={actionLoading !== null}
+                                                            title="Rename"
+                                                        >
+                                                            <Pencil className="h-4 w-4" />
+                                                        </Button>
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            onClick={() => handleRetire(entry)}
+                                                            disabled={actionLoading !== null}
+                                                            title={entry.retired_at ? "Restore" : "Retire"}
+                                                            className={
+                                                                entry.retired_at
+                                                                    ? "text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                                                                    : "text-amber-600 hover:text-amber-700 hover:bg-amber-50"
+                                                            }
+                                                        >
+                                                            {actionLoading === entry.id ? (
+                                                                <Loader2 className="h-4 w-4 animate-spin" />
+                                                            ) : entry.retired_at ? (
+                                                                <RotateCcw className="h-4 w-4" />
+                                                            ) : (
+                                                                <Archive className="h-4 w-4" />
+                                                            )}
+                                                        </Button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </TableCell>
+                                    )}
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+
+                {canManage && (
+                    <form onSubmit={handleAdd} className="flex gap-2">
+                        <Input
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder={kind === "category" ? "New category, e.g. Lab Equipment" : "New location, e.g. Art Room"}
+                            aria-label={kind === "category" ? "New category" : "New location"}
+                        />
+                        <Button type="submit" className="gap-2" disabled={!newName.trim() || actionLoading !== null}>
+                            {actionLoading === "new" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                            Add
+                        </Button>
+                    </form>
+                )}
+
+                {error && (
+                    <p className="text-sm text-destructive" role="alert">
+                        {error}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+/** Categories and locations offered on the report form and in /browse filters. */
+export default function SettingsTab({ canManage }: { canManage: boolean }) {
+    const { taxonomy, loading, refresh } = useTaxonomy();
+
+    if (loading) {
+        return (
+            <Card>
+                <CardContent className="py-8 text-center">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+                </CardContent>
+            </Card>
+        );
+    }
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <TaxonomyList
+                kind="category"
+                title="Categories"
+                description="Shown in this order on the report form and in browse filters. Retired categories stay on the reports that use them."
+                entries={taxonomy.categories.map((category) => ({ ...category, name: category.label }))}
+                canManage={canManage}
+                onChanged={refresh}
+            />
+            <TaxonomyList
+                kind="location"
+                title="Locations"
+                description="Renaming a location updates the reports that use it. Locations marked On map have a zone on the campus map, which keeps its place under the new name."
+                entries={taxonomy.locations}
+                canManage={canManage}
+                onChanged={refresh}
+            />
+        </div>
+    );
+}
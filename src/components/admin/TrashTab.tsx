@@ -0,0 +1,236 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    getTrash,
+    restoreItem,
+    restoreClaim,
+    permanentlyDeleteItem,
+    permanentlyDeleteClaim,
+} from "@/lib/admin-actions";
+import ItemStatusBadge from "@/components/ItemStatusBadge";
+import { TrashContents } from "@/lib/types";
+
+interface TrashTabProps {
+    canManage: boolean;
+    // Called after a restore so the dashboard can reload its items and claims
+    onRestore: () => void;
+}
+
+function purgeDate(deletedAt: string | null, retentionDays: number): string {
+    if (!deletedAt) return "—";
+    const date = new Date(deletedAt);
+    date.setDate(date.getDate() + retentionDays);
+    return date.toLocaleDateString();
+}
+
+export default function TrashTab({ canManage, onRestore }: TrashTabProps) {
+    const [trash, setTrash] = useState<TrashContents>({ items: [], claims: [], retentionDays: 30 });
+    const [loading, setLoading] = useState(true);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchTrash = async () => {
+        setLoading(true);
+        try {
+            setTrash(await getTrash());
+        } catch (error) {
+            console.error("Error fetching trash:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchTrash();
+    }, []);
+
+    const runAction = async (id: string, action: () => Promise<boolean>, restored: boolean, failure: string) => {
+        setActionLoading(id);
+        setError(null);
+        try {
+            const ok = await action();
+            if (!ok) setError(failure);
+            await fetchTrash();
+            if (ok && restored) onRestore();
+        } catch {
+            setError(failure);
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handlePurge = (id: string, purge: (id: string, reason?: string) => Promise<boolean>) => {
+        const reason = prompt("Permanently delete? This cannot be undone. Optionally give a reason:");
+        if (reason !== null) runAction(id, () => purge(id, reason), false, "Could not delete it permanently.");
+    };
+
+    const actionButtons = (
+        id: string,
+        restore: (id: string) => Promise<boolean>,
+        purge: (id: string, reason?: string) => Promise<boolean>,
+        restoreFailure = "Could not restore it."
+    ) =>
+        canManage && (
+            <div className="flex justify-end gap-1">
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => runAction(id, () => restore(id), true, restoreFailure)}
+                    disabled={actionLoading === id}
+                    title="Restore"
+                    className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                >
+                    {actionLoading === id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                </Button>
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handlePurge(id, purge)}
+                    disabled={actionLoading === id}
+                    title="Delete Forever"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                    <Trash2 className="h-4 w-4" />
+                </Button>
+            </div>
+        );
+
+    if (loading) {
+        return (
+            <Card>
+                <CardContent className="py-8 text-center">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+                </CardContent>
+            </Card>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {error && (
+                <p className="text-sm text-destructive" role="alert">
+                    {error}
+                </p>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Trashed Items</CardTitle>
+                    <CardDescription>
+                        Hidden from the public site. Restore them, or they are permanently deleted {trash.retentionDays} days after being trashed.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {trash.items.length === 0 ? (
+                        <p className="text-center text-muted-foreground py-8">The trash is empty</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Title</TableHead>
+                                        <TableHead>Type</TableHead>
+                                        <TableHead>Status</TableHead>
+                                        <TableHead>Trashed</TableHead>
+                                        <TableHead>Deleted Forever On</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {trash.items.map((item) => (
+                                        <TableRow key={item.id}>
+                                            <TableCell className="font-medium max-w-[200px] truncate">{item.title}</TableCell>
+                                            <TableCell className="capitalize">{item.type}</TableCell>
+                                            <TableCell>
+                                                <ItemStatusBadge status={item.status} />
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {item.deleted_at && new Date(item.deleted_at).toLocaleDateString()}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {purgeDate(item.deleted_at, trash.retentionDays)}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                {actionButtons(item.id, restoreItem, permanentlyDeleteItem)}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Trashed Claims</CardTitle>
+                    <CardDescription>
+                        Claims that were removed individually. Claims of a trashed item come back when the item is restored. A
+                        restored open claim holds its item again, so it can only come back while the item is still free.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {trash.claims.length === 0 ? (
+                        <p className="text-center text-muted-foreground py-8">No trashed claims</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Item</TableHead>
+                                        <TableHead>Claimant</TableHead>
+                                        <TableHead>Status</TableHead>
+                                        <TableHead>Trashed</TableHead>
+                                        <TableHead>Deleted Forever On</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {trash.claims.map((claim) => (
+                                        <TableRow key={claim.id}>
+                                            <TableCell className="font-medium max-w-[150px] truncate">
+                                                {claim.item?.title || "Unknown Item"}
+                                            </TableCell>
+                                            <TableCell>{claim.claimant_name}</TableCell>
+                                            <TableCell>
+                                                <Badge variant="outline">{claim.status}</Badge>
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {claim.deleted_at && new Date(claim.deleted_at).toLocaleDateString()}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {purgeDate(claim.deleted_at, trash.retentionDays)}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                {actionButtons(
+                                                    claim.id,
+                                                    restoreClaim,
+                                                    permanentlyDeleteClaim,
+                                                    "Could not restore the claim: its item has moved on since (for example another claim was approved or it was returned)."
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,55 +1,88 @@
 import { supabase } from "./supabase";
-import { Item, Claim, ItemStatus, ItemType, ItemCategory, ReportFormData } from "./types";
-
-export async function getItems(filters?: {
-    type?: ItemType;
-    category?: ItemCategory;
-    status?: ItemStatus;
-    search?: string;
-}): Promise<Item[]> {
-    let query = supabase
-        .from("items")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-    if (filters?.type) {
-        query = query.eq("type", filters.type);
-    }
-    if (filters?.category) {
-        query = query.eq("category", filters.category);
-    }
-    if (filters?.status) {
-        query = query.eq("status", filters.status);
-    }
-
-    const { data, error } = await query;
+import { ACTIVE_STATUSES } from "./lifecycle";
+import { EMPTY_TAXONOMY } from "./taxonomy";
+import {
+    PublicItem,
+    BrowseSort,
+    ItemCursor,
+    ItemPage,
+    ItemStatus,
+    ItemType,
+    ItemAttributes,
+    ItemCategory,
+    CategoryEntry,
+    LocationEntry,
+    Taxonomy,
+    PUBLIC_ITEM_COLUMNS,
+} from "./types";
+
+export const BROWSE_PAGE_SIZE = 24;
+// The /browse map view loads every match at once, up to this many
+export const MAP_PIN_LIMIT = 500;
+
+type SearchRow = PublicItem & { rank: number; total_count: number };
+
+/**
+ * Searches and pages items with the search_items() database function: full-text matches ranked
+ * by relevance (falling back to trigram similarity for typos), or newest first with no search.
+ * dateFrom/dateTo bound date_occurred and are inclusive; attributes must all match, ignoring
+ * case. Pass the previous page's nextCursor, with the same filters, to load the page after it.
+ */
+export async function getItems(
+    filters?: {
+        type?: ItemType;
+        category?: ItemCategory;
+        statuses?: ItemStatus[];
+        search?: string;
+        locations?: string[];
+        dateFrom?: string;
+        dateTo?: string;
+        attributes?: ItemAttributes;
+        sort?: BrowseSort;
+    },
+    cursor?: ItemCursor | null,
+    pageSize: number = BROWSE_PAGE_SIZE
+): Promise<ItemPage> {
+    const { data, error } = await supabase.rpc("search_items", {
+        search: filters?.search?.trim() || null,
+        item_type: filters?.type ?? null,
+        item_category: filters?.category ?? null,
+        item_statuses: filters?.statuses ?? ACTIVE_STATUSES,
+        item_locations: filters?.locations?.length ? filters.locations : null,
+        occurred_from: filters?.dateFrom || null,
+        occurred_to: filters?.dateTo || null,
+        item_attributes:
+            filters?.attributes && Object.keys(filters.attributes).length > 0 ? filters.attributes : null,
+        sort_order: filters?.sort ?? "relevance",
+        after_rank: cursor?.rank ?? null,
+        after_date_occurred: cursor?.date_occurred ?? null,
+        after_created_at: cursor?.created_at ?? null,
+        after_id: cursor?.id ?? null,
+        page_size: pageSize,
+    });
 
     if (error) {
         console.error("Error fetching items:", error);
-        return [];
+        return { items: [], total: 0, nextCursor: null };
     }
 
-    return (data as Item[]) || [];
-}
-
-export async function getAllItems(): Promise<Item[]> {
-    const { data, error } = await supabase
-        .from("items")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-    if (error) {
-        console.error("Error fetching all items:", error);
-        return [];
-    }
+    const rows = (data as SearchRow[]) || [];
+    const last = rows[rows.length - 1];
 
-    return (data as Item[]) || [];
+    return {
+        items: rows,
+        total: rows[0]?.total_count ?? 0,
+        nextCursor:
+            rows.length === pageSize
+                ? { rank: last.rank, date_occurred: last.date_occurred, created_at: last.created_at, id: last.id }
+                : null,
+    };
 }
 
-export async function getItemById(id: string): Promise<Item | null> {
+export async function getItemById(id: string): Promise<PublicItem | null> {
     const { data, error } = await supabase
         .from("items")
-        .select("*")
+        .select(PUBLIC_ITEM_COLUMNS)
         .eq("id", id)
         .single();
 
@@ -58,69 +91,14 @@ export async function getItemById(id: string): Promise<Item | null> {
         return null;
     }
 
-    return data as Item;
+    return data as unknown as PublicItem;
 }
 
-export async function createItem(formData: ReportFormData, imageUrl: string | null): Promise<Item | null> {
+export async function getRecentItems(limit: number = 5): Promise<PublicItem[]> {
     const { data, error } = await supabase
         .from("items")
-        .insert({
-            title: formData.title,
-            description: formData.description,
-            category: formData.category,
-            type: formData.type,
-            location: formData.location,
-            date_occurred: formData.date_occurred,
-            time_occurred: formData.time_occurred,
-            contact_email: formData.contact_email,
-            image_url: imageUrl,
-            security_answer: formData.security_answer.toLowerCase().trim(),
-            status: "pending",
-        })
-        .select()
-        .single();
-
-    if (error) {
-        console.error("Error creating item:", error);
-        return null;
-    }
-
-    return data as Item;
-}
-
-export async function updateItemStatus(id: string, status: ItemStatus): Promise<boolean> {
-    const { error } = await supabase
-        .from("items")
-        .update({ status })
-        .eq("id", id);
-
-    if (error) {
-        console.error("Error updating item status:", error);
-        return false;
-    }
-
-    return true;
-}
-
-export async function deleteItem(id: string): Promise<boolean> {
-    const { error } = await supabase
-        .from("items")
-        .delete()
-        .eq("id", id);
-
-    if (error) {
-        console.error("Error deleting item:", error);
-        return false;
-    }
-
-    return true;
-}
-
-export async function getRecentItems(limit: number = 5): Promise<Item[]> {
-    const { data, error } = await supabase
-        .from("items")
-        .select("*")
-        .eq("status", "approved")
+        .select(PUBLIC_ITEM_COLUMNS)
+        .in("status", ACTIVE_STATUSES)
         .order("created_at", { ascending: false })
         .limit(limit);
 
@@ -129,103 +107,20 @@ export async function getRecentItems(limit: number = 5): Promise<Item[]> {
         return [];
     }
 
-    return (data as Item[]) || [];
-}
-
-export async function createClaim(claimData: {
-    item_id: string;
-    claimant_name: string;
-    claimant_email: string;
-    security_answer: string;
-}): Promise<Claim | null> {
-    const { data, error } = await supabase
-        .from("claims")
-        .insert({
-            ...claimData,
-            security_answer: claimData.security_answer.toLowerCase().trim(),
-            status: "pending",
-        })
-        .select()
-        .single();
-
-    if (error) {
-        console.error("Error creating claim:", error);
-        return null;
-    }
-
-    return data as Claim;
-}
-
-export async function getAllClaims(): Promise<Claim[]> {
-    const { data, error } = await supabase
-        .from("claims")
-        .select("*, item:items(*)")
-        .order("created_at", { ascending: false });
-
-    if (error) {
-        console.error("Error fetching claims:", error);
-        return [];
-    }
-
-    return (data as Claim[]) || [];
-}
-
-export async function updateClaimStatus(id: string, status: "approved" | "denied"): Promise<boolean> {
-    const { error } = await supabase
-        .from("claims")
-        .update({ status })
-        .eq("id", id);
-
-    if (error) {
-        console.error("Error updating claim status:", error);
-        return false;
-    }
-
-    return true;
+    return (data as unknown as PublicItem[]) || [];
 }
 
-export async function uploadImage(file: File): Promise<string | null> {
-    const fileExt = file.name.split(".").pop();
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-
-    const { error } = await supabase.storage
-        .from("item-images")
-        .upload(fileName, file);
-
-    if (error) {
-        console.error("Error uploading image:", error);
-        return null;
-    }
-
-    const { data } = supabase.storage
-        .from("item-images")
-        .getPublicUrl(fileName);
-
-    return data.publicUrl;
-}
-
-export async function getAnalytics(): Promise<{
-    totalItems: number;
-    lostItems: number;
-    foundItems: number;
-    returnedItems: number;
-    pendingItems: number;
-    totalClaims: number;
-}> {
-    const [itemsRes, claimsRes] = await Promise.all([
-        supabase.from("items").select("type, status"),
-        supabase.from("claims").select("id"),
+/** Every category and location in display order, retired ones included (see src/lib/taxonomy.ts). */
+export async function getTaxonomy(): Promise<Taxonomy> {
+    const [categories, locations] = await Promise.all([
+        supabase.from("item_categories").select("id, value, label, sort_order, retired_at").order("sort_order"),
+        supabase.from("item_locations").select("id, name, sort_order, retired_at, map_zone").order("sort_order"),
     ]);
 
-    const items = (itemsRes.data as Pick<Item, "type" | "status">[]) || [];
-    const claims = claimsRes.data || [];
+    if (categories.error || locations.error) {
+        console.error("Error fetching categories and locations:", categories.error ?? locations.error);
+        return EMPTY_TAXONOMY;
+    }
 
-    return {
-        totalItems: items.length,
-        lostItems: items.filter((i) => i.type === "lost").length,
-        foundItems: items.filter((i) => i.type === "found").length,
-        returnedItems: items.filter((i) => i.status === "returned").length,
-        pendingItems: items.filter((i) => i.status === "pending").length,
-        totalClaims: claims.length,
-    };
+    return { categories: categories.data as CategoryEntry[], locations: locations.data as LocationEntry[] };
 }
@@ -0,0 +1,1196 @@
+"use server";
+
+import { supabaseAdmin } from "./supabase-server";
+import { getCurrentStaff, requirePermission, requireStaff } from "./auth";
+import { sendNotification } from "./notifications";
+import { recordAudit } from "./audit";
+import { purgeClaim, purgeItem, trashRetentionDays } from "./trash";
+import { reopenItemIfUnclaimed, transitionItem } from "./transitions";
+import { getClaimProofs } from "./proofs";
+import { canChangeStatusManually, CLAIMABLE_STATUSES, transitionPermission } from "./lifecycle";
+import { createManageLink } from "./manage";
+import { screenReport } from "./moderation";
+import { notifySavedSearches } from "./saved-searches";
+import { matchApprovedItem } from "./matching";
+import { createPickupLink, generatePickupCode, hashPickupCode, verifyPickupCode, PICKUP_CODE_MAX_ATTEMPTS } from "./pickup";
+import {
+    AuditEvent,
+    AuditFilters,
+    Item,
+    Claim,
+    ClaimProof,
+    CustodyEvent,
+    CustodyUpdate,
+    ItemMatch,
+    ItemStatus,
+    MatchStatus,
+    ModerationDecision,
+    ModerationQueueItem,
+    ReleaseResult,
+    StaffUser,
+    TaxonomyEntryInput,
+    TaxonomyKind,
+    TaxonomyMove,
+    TaxonomyRename,
+    TaxonomyRetire,
+    TrashContents,
+    MODERATION_REASONS,
+    idSchema,
+    itemStatusUpdateSchema,
+    itemDeletionSchema,
+    claimDecisionSchema,
+    claimDeletionSchema,
+    custodyUpdateSchema,
+    pickupReleaseSchema,
+    matchDecisionSchema,
+    moderationDecisionSchema,
+    auditFilterSchema,
+    taxonomyEntrySchema,
+    taxonomyRenameSchema,
+    taxonomyMoveSchema,
+    taxonomyRetireSchema,
+} from "./types";
+
+// Inner joins so matches whose lost or found report is in the trash can be filtered out
+const MATCH_WITH_ITEMS =
+    "*, lost_item:items!item_matches_lost_item_id_fkey!inner(*), found_item:items!item_matches_found_item_id_fkey!inner(*)";
+
+// Lets client pages show staff-only panels without throwing for regular visitors.
+export async function getStaffSession(): Promise<StaffUser | null> {
+    return getCurrentStaff();
+}
+
+export async function getAllItems(): Promise<Item[]> {
+    await requireStaff();
+
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .select("*")
+        .is("deleted_at", null)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        console.error("Error fetching all items:", error);
+        return [];
+    }
+
+    return (data as Item[]) || [];
+}
+
+export async function getItemForStaff(id: string): Promise<Item | null> {
+    await requireStaff();
+
+    if (!idSchema.safeParse(id).success) return null;
+
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+    if (error) {
+        console.error("Error fetching item:", error);
+        return null;
+    }
+
+    return data as Item | null;
+}
+
+export async function getAllClaims(): Promise<Claim[]> {
+    await requireStaff();
+
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .select("*, item:items!inner(*), proofs:claim_proofs(count)")
+        .is("deleted_at", null)
+        .is("item.deleted_at", null)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        console.error("Error fetching claims:", error);
+        return [];
+    }
+
+    return (data as Claim[]) || [];
+}
+
+// Dashboard counts that stay off the public home page (see getAnalytics in public-actions.ts)
+export async function getStaffAnalytics(): Promise<{ pendingItems: number; totalClaims: number }> {
+    await requireStaff();
+
+    const [pendingRes, claimsRes] = await Promise.all([
+        supabaseAdmin
+            .from("items")
+            .select("id", { count: "exact", head: true })
+            .eq("status", "pending")
+            .is("deleted_at", null),
+        supabaseAdmin.from("claims").select("id", { count: "exact", head: true }).is("deleted_at", null),
+    ]);
+
+    return { pendingItems: pendingRes.count ?? 0, totalClaims: claimsRes.count ?? 0 };
+}
+
+// Photos and notes the claimant attached, with short-lived links to the private photos
+export async function getClaimProofsForStaff(claimId: string): Promise<ClaimProof[]> {
+    await requireStaff();
+
+    const parsed = idSchema.safeParse(claimId);
+    if (!parsed.success) return [];
+
+    return getClaimProofs([parsed.data]);
+}
+
+export async function updateItemStatus(id: string, status: ItemStatus, reason?: string): Promise<boolean> {
+    const parsed = itemStatusUpdateSchema.safeParse({ id, status, reason });
+    if (!parsed.success) {
+        console.error("Invalid item status update:", parsed.error.issues);
+        return false;
+    }
+
+    const staff = await requirePermission(transitionPermission(parsed.data.status));
+
+    const data = await transitionItem(
+        parsed.data.id,
+        parsed.data.status,
+        staff,
+        parsed.data.reason,
+        undefined,
+        canChangeStatusManually
+    );
+    if (!data) return false;
+
+    await notifyModerationOutcome(data, parsed.data.status, parsed.data.reason || null);
+    return true;
+}
+
+/**
+ * Tells the reporter how moderation went, and keeps the moderator's message on the report so
+ * it is shown on their management page. A listed report also goes out to matching saved
+ * searches and is matched against open reports. Other status changes need no follow-up here.
+ */
+async function notifyModerationOutcome(
+    item: Pick<Item, "id" | "title" | "contact_email">,
+    status: ItemStatus,
+    message: string | null
+): Promise<void> {
+    if (status !== "listed" && status !== "rejected" && status !== "changes_requested") return;
+
+    const note = status === "listed" ? null : message || MODERATION_REASONS.find((r) => r.value === "other")!.message;
+    const { error } = await supabaseAdmin.from("items").update({ moderation_note: note }).eq("id", item.id);
+    if (error) console.error("Error saving moderation note:", error);
+
+    if (status === "listed") {
+        await sendNotification({ type: "report_approved", to: item.contact_email, itemId: item.id, itemTitle: item.title });
+        await notifySavedSearches(item);
+        // Matching is best-effort: a failure here must not undo the approval
+        try {
+            await matchApprovedItem(item.id);
+        } catch (matchError) {
+            console.error("Error matching approved item:", matchError);
+        }
+        return;
+    }
+
+    await sendNotification({
+        type: status === "rejected" ? "report_rejected" : "report_changes_requested",
+        to: item.contact_email,
+        itemTitle: item.title,
+        message: note!,
+        manageUrl: await createManageLink(item.id),
+    });
+}
+
+// Pending reports, oldest first, each with the automated pre-screen's flags
+export async function getModerationQueue(): Promise<ModerationQueueItem[]> {
+    await requireStaff();
+
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .select("*")
+        .eq("status", "pending")
+        .is("deleted_at", null)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        console.error("Error fetching moderation queue:", error);
+        return [];
+    }
+
+    return ((data as Item[]) || []).map((item) => ({ ...item, flags: screenReport(item) }));
+}
+
+const MODERATION_TARGETS: Record<ModerationDecision["decision"], ItemStatus> = {
+    approve: "listed",
+    reject: "rejected",
+    request_changes: "changes_requested",
+};
+
+export async function moderateReport(decision: ModerationDecision): Promise<boolean> {
+    const staff = await requirePermission("items:approve");
+
+    const parsed = moderationDecisionSchema.safeParse(decision);
+    if (!parsed.success) {
+        console.error("Invalid moderation decision:", parsed.error.issues);
+        return false;
+    }
+
+    const { id, reason, note } = parsed.data;
+    const status = MODERATION_TARGETS[parsed.data.decision];
+    const canned = MODERATION_REASONS.find((r) => r.value === reason);
+
+    // The audit log gets the short label; the reporter gets the full canned message
+    const data = await transitionItem(id, status, staff, [canned?.label, note].filter(Boolean).join(": ") || undefined);
+    if (!data) return false;
+
+    await notifyModerationOutcome(data, status, [canned?.message, note].filter(Boolean).join("\n\n") || null);
+    return true;
+}
+
+// Moves the item to the trash. Its claims and matches are hidden with it and come back on restore.
+export async function deleteItem(id: string, reason?: string): Promise<boolean> {
+    const staff = await requirePermission("items:delete");
+
+    const parsed = itemDeletionSchema.safeParse({ id, reason });
+    if (!parsed.success) {
+        console.error("Invalid item deletion:", parsed.error.issues);
+        return false;
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", parsed.data.id)
+        .is("deleted_at", null)
+        .select("id, title, status, deleted_at")
+        .single();
+
+    if (error) {
+        console.error("Error moving item to trash:", error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "item.deleted",
+        entityType: "item",
+        entityId: data.id,
+        item: data,
+        before: { status: data.status },
+        after: { deleted_at: data.deleted_at },
+        reason: parsed.data.reason,
+    });
+
+    return true;
+}
+
+export async function restoreItem(id: string): Promise<boolean> {
+    const staff = await requirePermission("items:delete");
+
+    if (!idSchema.safeParse(id).success) return false;
+
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .update({ deleted_at: null })
+        .eq("id", id)
+        .not("deleted_at", "is", null)
+        .select("id, title, status")
+        .single();
+
+    if (error) {
+        console.error("Error restoring item:", error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "item.restored",
+        entityType: "item",
+        entityId: data.id,
+        item: data,
+        after: { status: data.status },
+    });
+
+    return true;
+}
+
+export async function permanentlyDeleteItem(id: string, reason?: string): Promise<boolean> {
+    const staff = await requirePermission("items:delete");
+
+    const parsed = itemDeletionSchema.safeParse({ id, reason });
+    if (!parsed.success) {
+        console.error("Invalid item purge:", parsed.error.issues);
+        return false;
+    }
+
+    return purgeItem(parsed.data.id, staff, parsed.data.reason);
+}
+
+/**
+ * Approves or denies a pending claim. Approving puts the item on hold for pickup first, so
+ * of two approvals racing for the same item only one can succeed, then closes every other
+ * pending claim on it as superseded.
+ */
+export async function updateClaimStatus(
+    id: string,
+    status: "approved" | "denied",
+    reason?: string,
+    message?: string
+): Promise<boolean> {
+    const staff = await requirePermission("claims:decide");
+
+    const parsed = claimDecisionSchema.safeParse({ id, status, reason, message });
+    if (!parsed.success) {
+        console.error("Invalid claim decision:", parsed.error.issues);
+        return false;
+    }
+
+    const { data: current } = await supabaseAdmin
+        .from("claims")
+        .select("status, claimant_name, claimant_email, item:items(id, title, status)")
+        .eq("id", parsed.data.id)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    const item = current?.item as unknown as Pick<Item, "id" | "title" | "status"> | null;
+    if (!current || !item || current.status !== "pending") {
+        console.error("Only pending claims can be decided:", parsed.data.id);
+        return false;
+    }
+
+    const approving = parsed.data.status === "approved";
+    if (approving) {
+        const held = await transitionItem(item.id, "awaiting_pickup", staff, `Claim by ${current.claimant_name} approved`);
+        if (!held) {
+            console.error("Item is not open for an approval:", item.id);
+            return false;
+        }
+    }
+
+    // The plaintext code only ever leaves the server in the approval email
+    const pickupCode = approving ? generatePickupCode() : null;
+    const staffMessage = parsed.data.message || null;
+
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .update({
+            status: parsed.data.status,
+            pickup_code_hash: pickupCode ? hashPickupCode(pickupCode) : null,
+            pickup_attempts: 0,
+            staff_message: staffMessage,
+        })
+        .eq("id", parsed.data.id)
+        .eq("status", "pending")
+        .select("id")
+        .maybeSingle();
+
+    if (error || !data) {
+        if (error) console.error("Error updating claim status:", error);
+        if (approving) await reopenItemIfUnclaimed({ id: item.id, status: "awaiting_pickup" }, staff);
+        return false;
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "claim.decided",
+        entityType: "claim",
+        entityId: parsed.data.id,
+        item,
+        before: { status: current.status },
+        after: { status: parsed.data.status, claimant: current.claimant_name },
+        reason: parsed.data.reason,
+    });
+
+    if (approving) {
+        await supersedeCompetingClaims(item, parsed.data.id, staff);
+        await sendNotification({
+            type: "claim_approved",
+            to: current.claimant_email,
+            claimantName: current.claimant_name,
+            itemTitle: item.title,
+            pickupCode: pickupCode!,
+            pickupUrl: await createPickupLink(parsed.data.id),
+            staffMessage,
+        });
+    } else {
+        await reopenItemIfUnclaimed(item, staff);
+        await sendNotification({
+            type: "claim_denied",
+            to: current.claimant_email,
+            claimantName: current.claimant_name,
+            itemTitle: item.title,
+            staffMessage,
+        });
+    }
+
+    return true;
+}
+
+// Once one claim is approved, the rest of the item's pending claims are closed and told why
+async function supersedeCompetingClaims(
+    item: Pick<Item, "id" | "title">,
+    approvedClaimId: string,
+    staff: StaffUser
+): Promise<void> {
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .update({ status: "superseded" })
+        .eq("item_id", item.id)
+        .eq("status", "pending")
+        .neq("id", approvedClaimId)
+        .is("deleted_at", null)
+        .select("id, claimant_name, claimant_email");
+
+    if (error) {
+        console.error("Error superseding competing claims:", error);
+        return;
+    }
+
+    for (const claim of data || []) {
+        await recordAudit({
+            actor: staff,
+            action: "claim.superseded",
+            entityType: "claim",
+            entityId: claim.id,
+            item,
+            before: { status: "pending" },
+            after: { status: "superseded", claimant: claim.claimant_name },
+            reason: "Another claim for this item was approved",
+        });
+
+        await sendNotification({
+            type: "claim_superseded",
+            to: claim.claimant_email,
+            claimantName: claim.claimant_name,
+            itemTitle: item.title,
+        });
+    }
+}
+
+// Approved claims whose item has not been handed over yet, soonest pickup first
+export async function getPendingPickups(): Promise<Claim[]> {
+    await requireStaff();
+
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .select("*, item:items!inner(*)")
+        .eq("status", "approved")
+        .is("released_at", null)
+        .is("deleted_at", null)
+        .is("item.deleted_at", null)
+        .order("pickup_slot", { ascending: true, nullsFirst: false });
+
+    if (error) {
+        console.error("Error fetching pickups:", error);
+        return [];
+    }
+
+    return (data as Claim[]) || [];
+}
+
+/**
+ * Checks the claimant's pickup code at the desk. A correct code marks the item returned and
+ * records who released it; too many wrong codes lock the claim until a new code is issued.
+ * Each try spends an attempt before the code is checked, and the release and the move to
+ * returned happen in one transaction (see the pickup functions in supabase-schema.sql).
+ */
+export async function releaseItem(claimId: string, code: string): Promise<ReleaseResult> {
+    const staff = await requirePermission("items:return");
+
+    const parsed = pickupReleaseSchema.safeParse({ claim_id: claimId, code });
+    if (!parsed.success) {
+        console.error("Invalid pickup release:", parsed.error.issues);
+        return "error";
+    }
+
+    const { data: claim } = await supabaseAdmin
+        .from("claims")
+        .select("id, claimant_name, pickup_code_hash, pickup_attempts, item:items(id, title)")
+        .eq("id", parsed.data.claim_id)
+        .eq("status", "approved")
+        .is("released_at", null)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    if (!claim || !claim.pickup_code_hash) return "error";
+
+    const item = claim.item as unknown as Pick<Item, "id" | "title"> | null;
+    if (claim.pickup_attempts >= PICKUP_CODE_MAX_ATTEMPTS) return "locked";
+
+    const { data: attempts, error: attemptError } = await supabaseAdmin.rpc("use_pickup_attempt", {
+        target: claim.id,
+        max_attempts: PICKUP_CODE_MAX_ATTEMPTS,
+    });
+
+    if (attemptError) {
+        console.error("Error recording pickup attempt:", attemptError);
+        return "error";
+    }
+    if (attempts === null) return "locked";
+
+    if (!verifyPickupCode(parsed.data.code, claim.pickup_code_hash)) {
+        await recordAudit({
+            actor: staff,
+            action: "claim.release_failed",
+            entityType: "claim",
+            entityId: claim.id,
+            item,
+            after: { attempts },
+        });
+        return attempts >= PICKUP_CODE_MAX_ATTEMPTS ? "locked" : "invalid_code";
+    }
+
+    const { data: releasedItemId, error } = await supabaseAdmin.rpc("release_claim", {
+        target: claim.id,
+        staff_id: staff.id,
+        staff_name: staff.display_name,
+    });
+
+    if (error || !releasedItemId) {
+        console.error("Error releasing item:", error ?? "claim was already released");
+        return "error";
+    }
+
+    const releasedAt = new Date().toISOString();
+    await recordAudit({
+        actor: staff,
+        action: "claim.released",
+        entityType: "claim",
+        entityId: claim.id,
+        item,
+        after: { released_at: releasedAt, claimant: claim.claimant_name },
+    });
+
+    await recordAudit({
+        actor: staff,
+        action: "item.status_changed",
+        entityType: "item",
+        entityId: releasedItemId,
+        item,
+        before: { status: "awaiting_pickup" },
+        after: { status: "returned" },
+        reason: `Released to ${claim.claimant_name}`,
+    });
+
+    return "released";
+}
+
+export async function reissuePickupCode(claimId: string): Promise<boolean> {
+    const staff = await requirePermission("claims:decide");
+
+    if (!idSchema.safeParse(claimId).success) return false;
+
+    const pickupCode = generatePickupCode();
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .update({ pickup_code_hash: hashPickupCode(pickupCode), pickup_attempts: 0 })
+        .eq("id", claimId)
+        .eq("status", "approved")
+        .is("released_at", null)
+        .select("id, claimant_name, claimant_email, item:items(id, title)")
+        .single();
+
+    if (error) {
+        console.error("Error reissuing pickup code:", error);
+        return false;
+    }
+
+    const item = data.item as unknown as Pick<Item, "id" | "title"> | null;
+
+    await recordAudit({
+        actor: staff,
+        action: "claim.pickup_code_reissued",
+        entityType: "claim",
+        entityId: data.id,
+        item,
+    });
+
+    await sendNotification({
+        type: "pickup_code_reissued",
+        to: data.claimant_email,
+        claimantName: data.claimant_name,
+        itemTitle: item?.title ?? "your item",
+        pickupCode,
+        pickupUrl: await createPickupLink(data.id),
+    });
+
+    return true;
+}
+
+export async function updateCustody(update: CustodyUpdate): Promise<boolean> {
+    const staff = await requirePermission("items:custody");
+
+    const parsed = custodyUpdateSchema.safeParse(update);
+    if (!parsed.success) {
+        console.error("Invalid custody update:", parsed.error.issues);
+        return false;
+    }
+
+    const { data: item } = await supabaseAdmin
+        .from("items")
+        .select("id, title, type, custodian_id, storage_location")
+        .eq("id", parsed.data.item_id)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    if (!item || item.type !== "found") {
+        console.error("Custody can only be recorded for found items:", parsed.data.item_id);
+        return false;
+    }
+
+    let custodianName: string | null = null;
+    if (parsed.data.custodian_id) {
+        const { data: custodian } = await supabaseAdmin
+            .from("staff")
+            .select("display_name")
+            .eq("id", parsed.data.custodian_id)
+            .maybeSingle();
+
+        if (!custodian) {
+            console.error("Unknown custodian:", parsed.data.custodian_id);
+            return false;
+        }
+        custodianName = custodian.display_name;
+    }
+
+    const storageLocation = parsed.data.storage_location || null;
+
+    const { error } = await supabaseAdmin
+        .from("items")
+        .update({ custodian_id: parsed.data.custodian_id, storage_location: storageLocation })
+        .eq("id", item.id);
+
+    if (error) {
+        console.error("Error updating custody:", error);
+        return false;
+    }
+
+    const { error: historyError } = await supabaseAdmin.from("custody_events").insert({
+        item_id: item.id,
+        custodian_id: parsed.data.custodian_id,
+        custodian_name: custodianName,
+        storage_location: storageLocation,
+        note: parsed.data.note || null,
+        recorded_by: staff.id,
+        recorded_by_name: staff.display_name,
+    });
+
+    if (historyError) {
+        console.error("Error recording custody event:", historyError);
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "item.custody_changed",
+        entityType: "item",
+        entityId: item.id,
+        item,
+        before: { custodian_id: item.custodian_id, storage_location: item.storage_location },
+        after: { custodian_id: parsed.data.custodian_id, custodian: custodianName, storage_location: storageLocation },
+        reason: parsed.data.note,
+    });
+
+    return true;
+}
+
+export async function getCustodyHistory(itemId: string): Promise<CustodyEvent[]> {
+    await requireStaff();
+
+    if (!idSchema.safeParse(itemId).success) return [];
+
+    const { data, error } = await supabaseAdmin
+        .from("custody_events")
+        .select("*")
+        .eq("item_id", itemId)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        console.error("Error fetching custody history:", error);
+        return [];
+    }
+
+    return (data as CustodyEvent[]) || [];
+}
+
+export async function deleteClaim(id: string, reason?: string): Promise<boolean> {
+    const staff = await requirePermission("items:delete");
+
+    const parsed = claimDeletionSchema.safeParse({ id, reason });
+    if (!parsed.success) {
+        console.error("Invalid claim deletion:", parsed.error.issues);
+        return false;
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", parsed.data.id)
+        .is("deleted_at", null)
+        .select("id, claimant_name, status, deleted_at, item:items(id, title, status)")
+        .single();
+
+    if (error) {
+        console.error("Error moving claim to trash:", error);
+        return false;
+    }
+
+    const item = data.item as unknown as Pick<Item, "id" | "title" | "status"> | null;
+
+    await recordAudit({
+        actor: staff,
+        action: "claim.deleted",
+        entityType: "claim",
+        entityId: data.id,
+        item,
+        before: { status: data.status, claimant: data.claimant_name },
+        after: { deleted_at: data.deleted_at },
+        reason: parsed.data.reason,
+    });
+
+    // A trashed claim no longer holds its item
+    if (item) await reopenItemIfUnclaimed(item, staff);
+
+    return true;
+}
+
+/**
+ * Takes a claim out of the trash. A pending claim puts its item back to claim_pending, and an
+ * approved claim not yet collected puts it back on hold; either is refused when the item has
+ * moved on since (e.g. another claim was approved or the item was returned).
+ */
+export async function restoreClaim(id: string): Promise<boolean> {
+    const staff = await requirePermission("items:delete");
+
+    if (!idSchema.safeParse(id).success) return false;
+
+    const { data: trashed } = await supabaseAdmin
+        .from("claims")
+        .select("status, released_at, deleted_at, item:items(id, title, status)")
+        .eq("id", id)
+        .not("deleted_at", "is", null)
+        .maybeSingle();
+
+    const item = trashed?.item as unknown as Pick<Item, "id" | "title" | "status"> | null;
+    if (!trashed || !item) return false;
+
+    // Closed claims (denied, withdrawn, collected...) do not hold the item
+    let hold: ItemStatus | null = null;
+    if (trashed.status === "pending") hold = "claim_pending";
+    else if (trashed.status === "approved" && !trashed.released_at) hold = "awaiting_pickup";
+
+    const openFrom: ItemStatus[] = hold === "claim_pending" ? CLAIMABLE_STATUSES : ["listed"];
+    if (hold && !openFrom.includes(item.status)) {
+        console.error("Claim's item has moved on since it was trashed:", id);
+        return false;
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .update({ deleted_at: null })
+        .eq("id", id)
+        .not("deleted_at", "is", null)
+        .select("id, claimant_name, status")
+        .single();
+
+    if (error) {
+        console.error("Error restoring claim:", error);
+        return false;
+    }
+
+    if (hold && item.status !== hold) {
+        const held = await transitionItem(item.id, hold, staff, `Claim by ${data.claimant_name} restored`);
+        if (!held) {
+            // The item changed underneath us: put the claim back in the trash
+            await supabaseAdmin.from("claims").update({ deleted_at: trashed.deleted_at }).eq("id", id);
+            return false;
+        }
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "claim.restored",
+        entityType: "claim",
+        entityId: data.id,
+        item,
+        after: { status: data.status, claimant: data.claimant_name },
+    });
+
+    return true;
+}
+
+export async function permanentlyDeleteClaim(id: string, reason?: string): Promise<boolean> {
+    const staff = await requirePermission("items:delete");
+
+    const parsed = claimDeletionSchema.safeParse({ id, reason });
+    if (!parsed.success) {
+        console.error("Invalid claim purge:", parsed.error.issues);
+        return false;
+    }
+
+    return purgeClaim(parsed.data.id, staff, parsed.data.reason);
+}
+
+export async function getTrash(): Promise<TrashContents> {
+    await requireStaff();
+
+    const [itemsRes, claimsRes] = await Promise.all([
+        supabaseAdmin
+            .from("items")
+            .select("*")
+            .not("deleted_at", "is", null)
+            .order("deleted_at", { ascending: false }),
+        supabaseAdmin
+            .from("claims")
+            .select("*, item:items(*)")
+            .not("deleted_at", "is", null)
+            .order("deleted_at", { ascending: false }),
+    ]);
+
+    if (itemsRes.error || claimsRes.error) {
+        console.error("Error fetching trash:", itemsRes.error ?? claimsRes.error);
+    }
+
+    return {
+        items: (itemsRes.data as Item[]) || [],
+        claims: (claimsRes.data as Claim[]) || [],
+        retentionDays: trashRetentionDays(),
+    };
+}
+
+export async function getOpenMatches(): Promise<ItemMatch[]> {
+    await requireStaff();
+
+    const { data, error } = await supabaseAdmin
+        .from("item_matches")
+        .select(MATCH_WITH_ITEMS)
+        .eq("status", "open")
+        .is("lost_item.deleted_at", null)
+        .is("found_item.deleted_at", null)
+        .order("score", { ascending: false });
+
+    if (error) {
+        console.error("Error fetching matches:", error);
+        return [];
+    }
+
+    return (data as ItemMatch[]) || [];
+}
+
+export async function getMatchesForItem(itemId: string): Promise<ItemMatch[]> {
+    await requireStaff();
+
+    // itemId is interpolated into a PostgREST filter string below
+    if (!idSchema.safeParse(itemId).success) return [];
+
+    const { data, error } = await supabaseAdmin
+        .from("item_matches")
+        .select(MATCH_WITH_ITEMS)
+        .or(`lost_item_id.eq.${itemId},found_item_id.eq.${itemId}`)
+        .neq("status", "dismissed")
+        .is("lost_item.deleted_at", null)
+        .is("found_item.deleted_at", null)
+        .order("score", { ascending: false });
+
+    if (error) {
+        console.error("Error fetching item matches:", error);
+        return [];
+    }
+
+    return (data as ItemMatch[]) || [];
+}
+
+export async function updateMatchStatus(
+    id: string,
+    status: Exclude<MatchStatus, "open">,
+    reason?: string
+): Promise<boolean> {
+    const staff = await requirePermission("matches:review");
+
+    const parsed = matchDecisionSchema.safeParse({ id, status, reason });
+    if (!parsed.success) {
+        console.error("Invalid match decision:", parsed.error.issues);
+        return false;
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from("item_matches")
+        .update({ status: parsed.data.status })
+        .eq("id", parsed.data.id)
+        .select("id, lost_item_id, found_item_id, score")
+        .single();
+
+    if (error) {
+        console.error("Error updating match status:", error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "match.decided",
+        entityType: "match",
+        entityId: data.id,
+        before: { status: "open" },
+        after: { status: parsed.data.status, ...data },
+        reason: parsed.data.reason,
+    });
+
+    return true;
+}
+
+export async function getStaffDirectory(): Promise<Pick<StaffUser, "id" | "display_name">[]> {
+    await requireStaff();
+
+    const { data, error } = await supabaseAdmin
+        .from("staff")
+        .select("id, display_name")
+        .order("display_name");
+
+    if (error) {
+        console.error("Error fetching staff directory:", error);
+        return [];
+    }
+
+    return data || [];
+}
+
+export async function getAuditEvents(filters: AuditFilters = {}): Promise<AuditEvent[]> {
+    await requireStaff();
+
+    const parsed = auditFilterSchema.safeParse(filters);
+    if (!parsed.success) {
+        console.error("Invalid audit filters:", parsed.error.issues);
+        return [];
+    }
+
+    let query = supabaseAdmin
+        .from("audit_events")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+    if (parsed.data.actor === "public") {
+        query = query.neq("actor_type", "staff");
+    } else if (parsed.data.actor) {
+        query = query.eq("actor_id", parsed.data.actor);
+    }
+    if (parsed.data.itemId) {
+        query = query.eq("item_id", parsed.data.itemId);
+    }
+    if (parsed.data.action) {
+        query = query.eq("action", parsed.data.action);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error("Error fetching audit events:", error);
+        return [];
+    }
+
+    return (data as AuditEvent[]) || [];
+}
+
+// Table and name column behind each kind of entry in the Settings tab
+const TAXONOMY_TABLES: Record<TaxonomyKind, { table: string; column: "label" | "name" }> = {
+    category: { table: "item_categories", column: "label" },
+    location: { table: "item_locations", column: "name" },
+};
+
+// A category's value is stored on items and in links, so it is fixed when the category is
+// added and only the label changes on rename, e.g. "Lab Equipment" -> "lab_equipment"
+function categoryValue(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "category";
+}
+
+export async function addTaxonomyEntry(entry: TaxonomyEntryInput): Promise<boolean> {
+    const staff = await requirePermission("settings:manage");
+
+    const parsed = taxonomyEntrySchema.safeParse(entry);
+    if (!parsed.success) {
+        console.error("Invalid category or location:", parsed.error.issues);
+        return false;
+    }
+
+    const { kind, name } = parsed.data;
+    const { table, column } = TAXONOMY_TABLES[kind];
+
+    // New entries go to the end of the list
+    const { data: last } = await supabaseAdmin
+        .from(table)
+        .select("sort_order")
+        .order("sort_order", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    const row = {
+        [column]: name,
+        sort_order: (last?.sort_order ?? 0) + 1,
+        ...(kind === "category" ? { value: categoryValue(name) } : {}),
+    };
+
+    const { data, error } = await supabaseAdmin.from(table).insert(row).select("id").single();
+
+    if (error) {
+        console.error(`Error adding ${kind}:`, error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "taxonomy.added",
+        entityType: kind,
+        entityId: data.id,
+        after: row,
+    });
+
+    return true;
+}
+
+/** Renames a category's label, or a location; items and saved searches follow a location's new name. */
+export async function renameTaxonomyEntry(update: TaxonomyRename): Promise<boolean> {
+    const staff = await requirePermission("settings:manage");
+
+    const parsed = taxonomyRenameSchema.safeParse(update);
+    if (!parsed.success) {
+        console.error("Invalid rename:", parsed.error.issues);
+        return false;
+    }
+
+    const { kind, id, name } = parsed.data;
+    const { table, column } = TAXONOMY_TABLES[kind];
+
+    const { data: current } = await supabaseAdmin.from(table).select(column).eq("id", id).maybeSingle();
+    if (!current) {
+        console.error(`Unknown ${kind}:`, id);
+        return false;
+    }
+
+    const before = (current as Record<string, string>)[column];
+    if (before === name) return true;
+
+    const { error } = await supabaseAdmin.from(table).update({ [column]: name }).eq("id", id);
+
+    if (error) {
+        console.error(`Error renaming ${kind}:`, error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "taxonomy.renamed",
+        entityType: kind,
+        entityId: id,
+        before: { [column]: before },
+        after: { [column]: name },
+    });
+
+    return true;
+}
+
+/** Swaps an entry with its neighbour, renumbering the list so every position is distinct. */
+export async function moveTaxonomyEntry(move: TaxonomyMove): Promise<boolean> {
+    const staff = await requirePermission("settings:manage");
+
+    const parsed = taxonomyMoveSchema.safeParse(move);
+    if (!parsed.success) {
+        console.error("Invalid move:", parsed.error.issues);
+        return false;
+    }
+
+    const { kind, id, direction } = parsed.data;
+    const { table } = TAXONOMY_TABLES[kind];
+
+    const { data, error: fetchError } = await supabaseAdmin
+        .from(table)
+        .select("id, sort_order")
+        .order("sort_order")
+        .order("created_at");
+
+    if (fetchError) {
+        console.error(`Error fetching ${kind} order:`, fetchError);
+        return false;
+    }
+
+    const rows = (data as { id: string; sort_order: number }[]) || [];
+    const index = rows.findIndex((row) => row.id === id);
+    const target = direction === "up" ? index - 1 : index + 1;
+    if (index === -1 || target < 0 || target >= rows.length) return false;
+
+    const ordered = [...rows];
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+
+    const results = await Promise.all(
+        ordered
+            .map((row, position) => ({ row, sortOrder: position + 1 }))
+            .filter(({ row, sortOrder }) => row.sort_order !== sortOrder)
+            .map(({ row, sortOrder }) => supabaseAdmin.from(table).update({ sort_order: sortOrder }).eq("id", row.id))
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+        console.error(`Error reordering ${kind}:`, failed.error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: "taxonomy.reordered",
+        entityType: kind,
+        entityId: id,
+        before: { position: index + 1 },
+        after: { position: target + 1 },
+    });
+
+    return true;
+}
+
+/**
+ * Retires an entry so it is no longer offered, or brings it back. Items that already use it
+ * keep it. The last active entry of a kind cannot be retired, so the report form always has
+ * something to choose.
+ */
+export async function setTaxonomyEntryRetired(update: TaxonomyRetire): Promise<boolean> {
+    const staff = await requirePermission("settings:manage");
+
+    const parsed = taxonomyRetireSchema.safeParse(update);
+    if (!parsed.success) {
+        console.error("Invalid retire request:", parsed.error.issues);
+        return false;
+    }
+
+    const { kind, id, retired } = parsed.data;
+    const { table } = TAXONOMY_TABLES[kind];
+
+    if (retired) {
+        const { count } = await supabaseAdmin
+            .from(table)
+            .select("id", { count: "exact", head: true })
+            .is("retired_at", null)
+            .neq("id", id);
+
+        if (!count) {
+            console.error(`Refusing to retire the last active ${kind}:`, id);
+            return false;
+        }
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from(table)
+        .update({ retired_at: retired ? new Date().toISOString() : null })
+        .eq("id", id)
+        .select("id")
+        .maybeSingle();
+
+    if (error || !data) {
+        console.error(`Error updating ${kind}:`, error ?? id);
+        return false;
+    }
+
+    await recordAudit({
+        actor: staff,
+        action: retired ? "taxonomy.retired" : "taxonomy.restored",
+        entityType: kind,
+        entityId: id,
+    });
+
+    return true;
+}
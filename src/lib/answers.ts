@@ -0,0 +1,44 @@
+import { createHmac } from "crypto";
+import { dice, normalizeText, tokenize, trigrams } from "./text";
+import { AnswerFingerprint } from "./types";
+
+// Security answers are never stored in plaintext. Instead we keep keyed hashes of the
+// whole normalized answer, of each word, and of each character trigram. That is enough
+// to measure how much two answers overlap without being able to read either of them.
+
+function getSecret(): string {
+    const secret = process.env.ANSWER_HASH_SECRET;
+    if (!secret) {
+        throw new Error("ANSWER_HASH_SECRET is not configured");
+    }
+    return secret;
+}
+
+function keyedHash(value: string, secret: string): string {
+    return createHmac("sha256", secret).update(value).digest("hex").slice(0, 16);
+}
+
+export function fingerprintAnswer(answer: string): AnswerFingerprint {
+    const secret = getSecret();
+    const tokens = Array.from(new Set(tokenize(answer)));
+
+    return {
+        hash: keyedHash(normalizeText(answer), secret),
+        tokens: tokens.map((token) => keyedHash(`t:${token}`, secret)),
+        trigrams: trigrams(tokens).map((gram) => keyedHash(`g:${gram}`, secret)),
+    };
+}
+
+/**
+ * Scores a claimant's answer against the reporter's answer from 0 (no overlap) to 100
+ * (identical). Word overlap carries most of the weight; trigram overlap rewards answers
+ * that are close but misspelled.
+ */
+export function scoreAnswer(expected: AnswerFingerprint, given: AnswerFingerprint): number {
+    if (expected.hash === given.hash) return 100;
+
+    const tokenScore = dice(expected.tokens, given.tokens);
+    const trigramScore = dice(expected.trigrams, given.trigrams);
+
+    return Math.round((0.6 * tokenScore + 0.4 * trigramScore) * 100);
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { Item, ItemAttributes, ItemCategory } from "./types";
+
+// Extra details asked for on reports in some categories, keyed by item_categories.value. The
+// report wizard and edit form render these fields, /items/[id] lists them and /browse can filter
+// on them; matching compares them between lost and found reports. A category added from the
+// admin Settings tab has no extra fields until it is given some here. Private fields (such as
+// serial numbers) are stored apart and only shown to staff, so they can still prove ownership.
+
+export interface AttributeField {
+    key: string;
+    label: string;
+    // Offered as a dropdown; fields without options are free text
+    options?: string[];
+    placeholder?: string;
+    private?: boolean;
+    // Unique to one item: matching treats equal values as the same item and different ones as not
+    identifier?: boolean;
+}
+
+const COLORS = [
+    "Black",
+    "White",
+    "Gray",
+    "Silver",
+    "Gold",
+    "Red",
+    "Orange",
+    "Yellow",
+    "Green",
+    "Blue",
+    "Purple",
+    "Pink",
+    "Brown",
+    "Beige",
+    "Multicolor",
+];
+
+export const MAX_ATTRIBUTE_LENGTH = 100;
+
+export const CATEGORY_ATTRIBUTES: Record<ItemCategory, AttributeField[]> = {
+    electronics: [
+        { key: "brand", label: "Brand", placeholder: "e.g., Apple, Samsung, Texas Instruments" },
+        { key: "model", label: "Model", placeholder: "e.g., AirPods Pro, TI-84 Plus CE" },
+        { key: "color", label: "Color", options: COLORS },
+        {
+            key: "serial_number",
+            label: "Serial number",
+            placeholder: "Only staff can see this",
+            private: true,
+            identifier: true,
+        },
+    ],
+    clothing: [
+        { key: "size", label: "Size", placeholder: "e.g., M, 10, 32x30" },
+        { key: "color", label: "Color", options: COLORS },
+    ],
+    books: [
+        { key: "subject", label: "Subject", placeholder: "e.g., AP Biology" },
+        { key: "edition", label: "Edition", placeholder: "e.g., 12th" },
+    ],
+};
+
+export function attributeFields(category: ItemCategory | null | undefined): AttributeField[] {
+    return (category && CATEGORY_ATTRIBUTES[category]) || [];
+}
+
+/** Fields visitors can see and filter /browse on. */
+export function publicAttributeFields(category: ItemCategory | null | undefined): AttributeField[] {
+    return attributeFields(category).filter((field) => !field.private);
+}
+
+/** The category's fields as a schema: blanks are dropped, and a field with options only takes one of them. */
+export function attributesSchema(category: ItemCategory) {
+    return z.object(
+        Object.fromEntries(
+            attributeFields(category).map((field) => [
+                field.key,
+                z.preprocess(
+                    (value) => (typeof value === "string" && value.trim() === "" ? undefined : value),
+                    field.options
+                        ? z.enum(field.options as [string, ...string[]]).optional()
+                        : z.string().trim().max(MAX_ATTRIBUTE_LENGTH).optional()
+                ),
+            ])
+        )
+    );
+}
+
+/**
+ * Checks submitted details against the category's fields and splits off the private ones.
+ * Fields the category does not have are ignored; returns null when a value is not allowed.
+ */
+export function parseAttributes(
+    category: ItemCategory,
+    values: ItemAttributes | undefined
+): Pick<Item, "attributes" | "private_attributes"> | null {
+    const parsed = attributesSchema(category).safeParse(values ?? {});
+    if (!parsed.success) return null;
+
+    const result: Pick<Item, "attributes" | "private_attributes"> = { attributes: {}, private_attributes: {} };
+    for (const field of attributeFields(category)) {
+        const value = parsed.data[field.key];
+        if (typeof value !== "string") continue;
+        result[field.private ? "private_attributes" : "attributes"][field.key] = value;
+    }
+    return result;
+}
+
+/** Label and value of each filled-in field, in the category's order. */
+export function describeAttributes(
+    category: ItemCategory,
+    values: ItemAttributes
+): { key: string; label: string; value: string; private: boolean }[] {
+    return attributeFields(category)
+        .filter((field) => values[field.key])
+        .map((field) => ({ key: field.key, label: field.label, value: values[field.key], private: !!field.private }));
+}
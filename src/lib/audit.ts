@@ -0,0 +1,40 @@
+import { supabaseAdmin } from "./supabase-server";
+import { AuditAction, AuditActorType, AuditEntityType, StaffUser } from "./types";
+
+interface AuditInput {
+    // null for anonymous visitors (reports, claims, failed sign-ins)
+    actor: StaffUser | null;
+    actorType?: Exclude<AuditActorType, "staff">;
+    actorName?: string;
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId?: string | null;
+    item?: { id: string; title: string } | null;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+    reason?: string | null;
+}
+
+/**
+ * Appends an entry to audit_events. Never throws: losing an audit entry is logged, but it
+ * must not undo or block the action being recorded.
+ */
+export async function recordAudit(input: AuditInput): Promise<void> {
+    const { error } = await supabaseAdmin.from("audit_events").insert({
+        actor_type: input.actor ? "staff" : input.actorType ?? "public",
+        actor_id: input.actor?.id ?? null,
+        actor_name: input.actor?.display_name ?? input.actorName ?? (input.actorType === "system" ? "System" : "Public visitor"),
+        action: input.action,
+        entity_type: input.entityType,
+        entity_id: input.entityId ?? null,
+        item_id: input.item?.id ?? null,
+        item_title: input.item?.title ?? null,
+        before: input.before ?? null,
+        after: input.after ?? null,
+        reason: input.reason || null,
+    });
+
+    if (error) {
+        console.error("Error recording audit event:", error);
+    }
+}
@@ -0,0 +1,95 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import { supabaseAdmin } from "./supabase-server";
+import { SESSION_COOKIE, verifySession } from "./session";
+import { hasPermission, Permission } from "./permissions";
+import { StaffUser } from "./types";
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Compared against when the username does not exist so both paths take the same time.
+const DUMMY_HASH = `scrypt$${"0".repeat(32)}$${"0".repeat(KEY_LENGTH * 2)}`;
+
+export class UnauthorizedError extends Error {
+    constructor(message = "You must be signed in as staff to do that") {
+        super(message);
+        this.name = "UnauthorizedError";
+    }
+}
+
+export class ForbiddenError extends Error {
+    constructor(message = "Your staff role does not allow that action") {
+        super(message);
+        this.name = "ForbiddenError";
+    }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [scheme, saltHex, keyHex] = storedHash.split("$");
+    if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+
+    const expected = Buffer.from(keyHex, "hex");
+    const actual = await scrypt(password, Buffer.from(saltHex, "hex"), expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+export async function authenticateStaff(username: string, password: string): Promise<StaffUser | null> {
+    const { data, error } = await supabaseAdmin
+        .from("staff")
+        .select("id, username, display_name, role, password_hash")
+        .eq("username", username.toLowerCase().trim())
+        .maybeSingle();
+
+    if (error) {
+        console.error("Error looking up staff account:", error);
+        return null;
+    }
+
+    const passwordMatches = await verifyPassword(password, data?.password_hash ?? DUMMY_HASH);
+    if (!data || !passwordMatches) return null;
+
+    return { id: data.id, username: data.username, display_name: data.display_name, role: data.role };
+}
+
+export async function getCurrentStaff(): Promise<StaffUser | null> {
+    const session = await verifySession(cookies().get(SESSION_COOKIE)?.value);
+    if (!session) return null;
+
+    const { data, error } = await supabaseAdmin
+        .from("staff")
+        .select("id, username, display_name, role")
+        .eq("id", session.sub)
+        .maybeSingle();
+
+    if (error) {
+        console.error("Error loading staff session:", error);
+        return null;
+    }
+
+    return (data as StaffUser) || null;
+}
+
+export async function requireStaff(): Promise<StaffUser> {
+    const staff = await getCurrentStaff();
+    if (!staff) {
+        throw new UnauthorizedError();
+    }
+    return staff;
+}
+
+export async function requirePermission(permission: Permission): Promise<StaffUser> {
+    const staff = await requireStaff();
+    if (!hasPermission(staff.role, permission)) {
+        throw new ForbiddenError();
+    }
+    return staff;
+}
@@ -0,0 +1,138 @@
+import { categoryLabel } from "./taxonomy";
+import { publicAttributeFields } from "./attributes";
+import {
+    BROWSE_SORTS,
+    BrowseSort,
+    CategoryEntry,
+    ItemAttributes,
+    ItemCategory,
+    ItemType,
+    SavedSearchCriteria,
+} from "./types";
+
+// The /browse filters as they appear in the query string, so a filtered view can be
+// refreshed, shared or linked to (e.g. /browse?type=found&category=electronics&q=charger).
+// Locations repeat: ?location=Library&location=Cafeteria. Category details are prefixed with
+// "attr." (?category=electronics&attr.brand=Apple) and only apply within their category.
+
+export interface BrowseFilters {
+    search: string;
+    type: ItemType | "all";
+    category: ItemCategory | "all";
+    locations: string[];
+    // Details of the selected category (src/lib/attributes.ts), by field key
+    attributes: ItemAttributes;
+    // Range for date_occurred, as YYYY-MM-DD; empty means open-ended
+    from: string;
+    to: string;
+    includeReturned: boolean;
+    sort: BrowseSort;
+    // Grid of cards, or pins on the campus map
+    view: "grid" | "map";
+}
+
+export const DEFAULT_BROWSE_FILTERS: BrowseFilters = {
+    search: "",
+    type: "all",
+    category: "all",
+    locations: [],
+    attributes: {},
+    from: "",
+    to: "",
+    includeReturned: false,
+    sort: "relevance",
+    view: "grid",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string | null): string {
+    return value && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value)) ? value : "";
+}
+
+/**
+ * Reads filters from the query string, ignoring values that are not valid options. Categories
+ * and locations are not checked against the current lists: one that no longer exists simply
+ * matches nothing.
+ */
+export function parseBrowseFilters(params: Pick<URLSearchParams, "get" | "getAll">): BrowseFilters {
+    const type = params.get("type");
+    const category = params.get("category")?.trim() || "all";
+    const sort = params.get("sort");
+
+    const attributes: ItemAttributes = {};
+    for (const field of publicAttributeFields(category)) {
+        const value = params.get(`attr.${field.key}`)?.trim();
+        if (value) attributes[field.key] = value;
+    }
+
+    return {
+        search: params.get("q")?.trim() ?? "",
+        type: type === "lost" || type === "found" ? type : "all",
+        category,
+        locations: Array.from(new Set(params.getAll("location").filter((location) => location.trim()))),
+        attributes,
+        from: parseDate(params.get("from")),
+        to: parseDate(params.get("to")),
+        includeReturned: params.get("returned") === "1",
+        sort: BROWSE_SORTS.some((s) => s.value === sort) ? (sort as BrowseSort) : "relevance",
+        view: params.get("view") === "map" ? "map" : "grid",
+    };
+}
+
+/** Builds a /browse link for the given filters, leaving defaults out of the query string. */
+export function browseHref(filters: Partial<BrowseFilters>): string {
+    const { search, type, category, locations, attributes, from, to, includeReturned, sort, view } = {
+        ...DEFAULT_BROWSE_FILTERS,
+        ...filters,
+    };
+    const params = new URLSearchParams();
+
+    if (search.trim()) params.set("q", search.trim());
+    if (type !== "all") params.set("type", type);
+    if (category !== "all") params.set("category", category);
+    locations.forEach((location) => params.append("location", location));
+    if (category !== "all") {
+        Object.entries(attributes).forEach(([key, value]) => {
+            if (value.trim()) params.set(`attr.${key}`, value.trim());
+        });
+    }
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (includeReturned) params.set("returned", "1");
+    if (sort !== "relevance") params.set("sort", sort);
+    if (view !== "grid") params.set("view", view);
+
+    const query = params.toString();
+    return query ? `/browse?${query}` : "/browse";
+}
+
+/** The /browse view that shows what a saved search alerts about. */
+export function savedSearchHref(criteria: SavedSearchCriteria): string {
+    return browseHref({
+        search: criteria.search ?? "",
+        type: criteria.type ?? "all",
+        category: criteria.category ?? "all",
+        locations: criteria.location ? [criteria.location] : [],
+        from: criteria.date_from ?? "",
+        to: criteria.date_to ?? "",
+    });
+}
+
+/** One-line summary of a saved search, e.g. `"charger" · Found · Electronics · Library`. */
+export function describeSearch(criteria: SavedSearchCriteria, categories: CategoryEntry[]): string {
+    const parts = [
+        criteria.search ? `"${criteria.search}"` : null,
+        criteria.type === "lost" ? "Lost" : criteria.type === "found" ? "Found" : null,
+        criteria.category ? categoryLabel(categories, criteria.category) : null,
+        criteria.location,
+        criteria.date_from && criteria.date_to
+            ? `${criteria.date_from} to ${criteria.date_to}`
+            : criteria.date_from
+              ? `since ${criteria.date_from}`
+              : criteria.date_to
+                ? `until ${criteria.date_to}`
+                : null,
+    ];
+    return parts.filter(Boolean).join(" · ");
+}
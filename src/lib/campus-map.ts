@@ -0,0 +1,192 @@
+import { LocationEntry, PublicItem } from "./types";
+
+// The campus map shown in the report wizard, on item pages and in the /browse map view.
+// Each floor is a simple SVG plan: zones are polygons in the floor's own units (its width
+// and height). A zone is linked to a location by its key, stored in the map_zone column of
+// item_locations, so renaming the location in the admin Settings tab carries over to the map.
+// To change the map, edit CAMPUS_FLOORS and the map_zone seed in supabase-schema.sql. Saved
+// positions are stored as fractions of the floor size, so a floor can be redrawn at another scale.
+
+export type MapPoint = [number, number];
+
+export interface MapZone {
+    // Matches item_locations.map_zone
+    key: string;
+    points: MapPoint[];
+}
+
+// Location names by zone key; zones without a location are drawn but cannot be picked
+export type ZoneLocations = Record<string, string>;
+
+export interface CampusFloor {
+    id: string;
+    building: string;
+    label: string;
+    width: number;
+    height: number;
+    zones: MapZone[];
+}
+
+// Where an item sits on the map, as fractions (0–1) of the floor's width and height
+export interface MapPosition {
+    floor: string;
+    x: number;
+    y: number;
+}
+
+function rect(x: number, y: number, width: number, height: number): MapPoint[] {
+    return [
+        [x, y],
+        [x + width, y],
+        [x + width, y + height],
+        [x, y + height],
+    ];
+}
+
+export const CAMPUS_FLOORS: CampusFloor[] = [
+    {
+        id: "main-1",
+        building: "Main Building",
+        label: "1st Floor",
+        width: 1000,
+        height: 600,
+        zones: [
+            { key: "main-office", points: rect(40, 40, 220, 180) },
+            { key: "cafeteria", points: rect(300, 40, 320, 220) },
+            { key: "auditorium", points: rect(660, 40, 300, 220) },
+            { key: "hallway-1", points: rect(40, 260, 920, 80) },
+            { key: "library", points: rect(40, 380, 360, 180) },
+            { key: "gym", points: rect(440, 380, 520, 180) },
+        ],
+    },
+    {
+        id: "main-2",
+        building: "Main Building",
+        label: "2nd Floor",
+        width: 1000,
+        height: 600,
+        zones: [
+            { key: "science-lab", points: rect(40, 40, 440, 200) },
+            { key: "computer-lab", points: rect(520, 40, 440, 200) },
+            { key: "hallway-2", points: rect(40, 260, 920, 80) },
+        ],
+    },
+    {
+        id: "main-3",
+        building: "Main Building",
+        label: "3rd Floor",
+        width: 1000,
+        height: 600,
+        zones: [{ key: "hallway-3", points: rect(40, 260, 920, 80) }],
+    },
+    {
+        id: "grounds",
+        building: "Campus Grounds",
+        label: "Outside",
+        width: 1000,
+        height: 600,
+        zones: [
+            {
+                key: "parking-lot",
+                points: [
+                    [40, 40],
+                    [420, 40],
+                    [420, 260],
+                    [40, 320],
+                ],
+            },
+            { key: "bus-stop", points: rect(40, 400, 220, 160) },
+            { key: "football-field", points: rect(480, 40, 480, 520) },
+        ],
+    },
+];
+
+export function getFloor(id: string | null | undefined): CampusFloor | undefined {
+    return CAMPUS_FLOORS.find((floor) => floor.id === id);
+}
+
+export function floorName(floor: CampusFloor): string {
+    return `${floor.building} · ${floor.label}`;
+}
+
+export function zoneLocations(locations: Pick<LocationEntry, "name" | "map_zone">[]): ZoneLocations {
+    const zones: ZoneLocations = {};
+    for (const location of locations) {
+        if (location.map_zone) zones[location.map_zone] = location.name;
+    }
+    return zones;
+}
+
+// Ray casting: count how many polygon edges a ray from the point crosses
+function contains(points: MapPoint[], x: number, y: number): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const [xi, yi] = points[i];
+        const [xj, yj] = points[j];
+        if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+/** The zone under a position, or null if it falls outside every zone on that floor. */
+export function zoneAt(position: MapPosition): MapZone | null {
+    const floor = getFloor(position.floor);
+    if (!floor) return null;
+    const x = position.x * floor.width;
+    const y = position.y * floor.height;
+    return floor.zones.find((zone) => contains(zone.points, x, y)) ?? null;
+}
+
+/** Where a location's zone is, or null for locations that are not on the map (e.g. "Other"). */
+export function locationCenter(location: string, zones: ZoneLocations): MapPosition | null {
+    for (const floor of CAMPUS_FLOORS) {
+        const zone = floor.zones.find((z) => zones[z.key] === location);
+        if (!zone) continue;
+        const xs = zone.points.map(([x]) => x);
+        const ys = zone.points.map(([, y]) => y);
+        return {
+            floor: floor.id,
+            x: (Math.min(...xs) + Math.max(...xs)) / 2 / floor.width,
+            y: (Math.min(...ys) + Math.max(...ys)) / 2 / floor.height,
+        };
+    }
+    return null;
+}
+
+/**
+ * Where to pin an item: the spot the reporter clicked, or the middle of its location's zone
+ * for reports made without the map. `exact` tells the two apart.
+ */
+export function itemPosition(
+    item: Pick<PublicItem, "location" | "map_floor" | "map_x" | "map_y">,
+    zones: ZoneLocations
+): (MapPosition & { exact: boolean }) | null {
+    if (item.map_floor && item.map_x !== null && item.map_y !== null && getFloor(item.map_floor)) {
+        return { floor: item.map_floor, x: item.map_x, y: item.map_y, exact: true };
+    }
+    const center = locationCenter(item.location, zones);
+    return center ? { ...center, exact: false } : null;
+}
+
+/**
+ * Checks a submitted map position against the map. A spot inside one of the `zones` decides the
+ * location; a missing or invalid spot, or one in the zone of a retired location, is dropped and
+ * the chosen location is kept as it is.
+ */
+export function resolveMapPosition(
+    report: {
+        location: string;
+        map_floor?: string | null;
+        map_x?: number | null;
+        map_y?: number | null;
+    },
+    zones: ZoneLocations
+): Pick<PublicItem, "location" | "map_floor" | "map_x" | "map_y"> {
+    if (report.map_floor && report.map_x != null && report.map_y != null) {
+        const position = { floor: report.map_floor, x: report.map_x, y: report.map_y };
+        const zone = zoneAt(position);
+        const location = zone ? zones[zone.key] : undefined;
+        if (location) return { location, map_floor: position.floor, map_x: position.x, map_y: position.y };
+    }
+    return { location: report.location, map_floor: null, map_x: null, map_y: null };
+}
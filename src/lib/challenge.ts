@@ -0,0 +1,52 @@
+import { CHALLENGE_FIELD, HONEYPOT_FIELD, STUB_CHALLENGE_TOKEN } from "./types";
+
+export interface ChallengeProvider {
+    /** Resolves true when `token` proves a person completed the widget rendered by ChallengeFields. */
+    verify(token: string | null, ip: string): Promise<boolean>;
+}
+
+// No CAPTCHA: only the honeypot field is checked.
+export function createNoChallengeProvider(): ChallengeProvider {
+    return {
+        async verify() {
+            return true;
+        },
+    };
+}
+
+// A local "I'm not a robot" checkbox, so the challenge flow can be exercised without a provider account.
+export function createStubChallengeProvider(): ChallengeProvider {
+    return {
+        async verify(token) {
+            return token === STUB_CHALLENGE_TOKEN;
+        },
+    };
+}
+
+let provider: ChallengeProvider | null = null;
+
+/**
+ * Picks the provider from NEXT_PUBLIC_CAPTCHA_PROVIDER (none | stub). Defaults to none.
+ * The same variable tells ChallengeFields which widget to render.
+ */
+export function getChallengeProvider(): ChallengeProvider {
+    if (!provider) {
+        switch (process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER) {
+            case "stub":
+                provider = createStubChallengeProvider();
+                break;
+            default:
+                provider = createNoChallengeProvider();
+        }
+    }
+    return provider;
+}
+
+/** Checks the honeypot field, which people never see and bots tend to fill, then the CAPTCHA token. */
+export async function passesChallenge(formData: FormData, ip: string): Promise<boolean> {
+    const honeypot = formData.get(HONEYPOT_FIELD);
+    if (typeof honeypot === "string" && honeypot.length > 0) return false;
+
+    const token = formData.get(CHALLENGE_FIELD);
+    return getChallengeProvider().verify(typeof token === "string" ? token : null, ip);
+}
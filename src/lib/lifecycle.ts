@@ -0,0 +1,52 @@
+import { Permission } from "./permissions";
+import { ItemStatus } from "./types";
+
+// Which statuses an item may move to from each status. Every status change, whether made
+// by staff or triggered by a claim, is checked against this table on the server.
+export const ITEM_TRANSITIONS: Record<ItemStatus, ItemStatus[]> = {
+    pending: ["listed", "changes_requested", "rejected", "withdrawn"],
+    // The reporter's edit from their management link sends it back for review
+    changes_requested: ["pending", "withdrawn"],
+    rejected: ["pending"],
+    listed: ["pending", "claim_pending", "awaiting_pickup", "returned", "donated", "discarded", "withdrawn"],
+    claim_pending: ["listed", "awaiting_pickup", "returned", "withdrawn"],
+    awaiting_pickup: ["listed", "returned"],
+    returned: [],
+    donated: [],
+    discarded: [],
+    withdrawn: [],
+};
+
+// Statuses the public site can see (mirrors the RLS policy on items)
+export const PUBLIC_STATUSES: ItemStatus[] = ["listed", "claim_pending", "awaiting_pickup", "returned"];
+
+// Statuses shown on /browse and the home page feed
+export const ACTIVE_STATUSES: ItemStatus[] = ["listed", "claim_pending", "awaiting_pickup"];
+
+// Statuses that still accept new claims
+export const CLAIMABLE_STATUSES: ItemStatus[] = ["listed", "claim_pending"];
+
+// Statuses the reporter may still edit from their management link; edits to a listed,
+// rejected or changes-requested report send it back to pending for another review
+export const EDITABLE_STATUSES: ItemStatus[] = ["pending", "changes_requested", "rejected", "listed"];
+
+// Statuses still worth matching approved reports against; unmoderated reports are never matched
+export const MATCHABLE_STATUSES: ItemStatus[] = ["listed", "claim_pending"];
+
+export function canTransition(from: ItemStatus, to: ItemStatus): boolean {
+    return ITEM_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Whether staff may make this move from the status menu. An awaiting_pickup item is held by an
+ * approved claim with a live pickup code, so only the claim flows move an item into or out of
+ * it: approving or withdrawing a claim, and releasing the item against its code.
+ */
+export function canChangeStatusManually(from: ItemStatus, to: ItemStatus): boolean {
+    return canTransition(from, to) && from !== "awaiting_pickup" && to !== "awaiting_pickup";
+}
+
+/** Moderation decisions need items:approve; anything about the physical item needs items:return. */
+export function transitionPermission(to: ItemStatus): Permission {
+    return ["awaiting_pickup", "returned", "donated", "discarded"].includes(to) ? "items:return" : "items:approve";
+}
@@ -0,0 +1,84 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface Mailer {
+    send(message: MailMessage): Promise<void>;
+}
+
+export function createSmtpMailer(): Mailer {
+    const from = process.env.MAIL_FROM;
+    if (!process.env.SMTP_HOST || !from) {
+        throw new Error("SMTP_HOST and MAIL_FROM must be configured to send email over SMTP");
+    }
+
+    const transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === "true",
+        auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+            : undefined,
+    });
+
+    return {
+        async send(message) {
+            await transporter.sendMail({ from, ...message });
+        },
+    };
+}
+
+// Writes each message to a JSON file so emails can be inspected during development and tests.
+export function createFileMailer(directory = process.env.MAIL_OUTPUT_DIR || ".mail"): Mailer {
+    return {
+        async send(message) {
+            await mkdir(directory, { recursive: true });
+            const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.json`;
+            await writeFile(
+                path.join(directory, fileName),
+                JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2)
+            );
+        },
+    };
+}
+
+// Development only: bodies hold pickup codes and signed links, which must not end up in production logs.
+export function createConsoleMailer(): Mailer {
+    if (process.env.NODE_ENV === "production") {
+        throw new Error("MAIL_TRANSPORT must be set to smtp or file in production");
+    }
+
+    return {
+        async send(message) {
+            console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+        },
+    };
+}
+
+let mailer: Mailer | null = null;
+
+/**
+ * Picks the transport from MAIL_TRANSPORT (smtp | file | console). Defaults to console, which
+ * throws in production, so emails stay queued in the outbox until a real transport is set.
+ */
+export function getMailer(): Mailer {
+    if (!mailer) {
+        switch (process.env.MAIL_TRANSPORT) {
+            case "smtp":
+                mailer = createSmtpMailer();
+                break;
+            case "file":
+                mailer = createFileMailer();
+                break;
+            default:
+                mailer = createConsoleMailer();
+        }
+    }
+    return mailer;
+}
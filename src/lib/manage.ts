@@ -0,0 +1,79 @@
+import { signToken, verifyToken } from "./session";
+
+// Reporters, claimants and alert subscribers have no account, so they get signed links
+// instead. A new report links to a private /manage/[token] page for editing or withdrawing
+// it, and a new claim to a /track/[token] page for following its review. Saved search
+// alerts link to an /alerts/[token] page listing every alert for that email address.
+// Whoever holds a link can act on it, which is why each is only shown once and sent to the
+// email address on file.
+
+const MANAGE_LINK_MAX_AGE = 60 * 60 * 24 * 180; // 180 days, in seconds
+const TRACKING_LINK_MAX_AGE = 60 * 60 * 24 * 90; // 90 days, in seconds
+const ALERTS_LINK_MAX_AGE = 60 * 60 * 24 * 365; // 1 year, in seconds
+
+interface ManageTokenPayload {
+    itemId: string;
+    purpose: "manage";
+    exp: number;
+}
+
+interface TrackingTokenPayload {
+    claimId: string;
+    purpose: "track";
+    exp: number;
+}
+
+interface AlertsTokenPayload {
+    email: string;
+    // Set in the confirmation email: opening the link turns this saved search on
+    confirm?: string;
+    purpose: "alerts";
+    exp: number;
+}
+
+export function siteUrl(pathname: string): string {
+    return `${process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"}${pathname}`;
+}
+
+export async function createManageLink(itemId: string): Promise<string> {
+    const token = await signToken<ManageTokenPayload>({
+        itemId,
+        purpose: "manage",
+        exp: Math.floor(Date.now() / 1000) + MANAGE_LINK_MAX_AGE,
+    });
+    return siteUrl(`/manage/${token}`);
+}
+
+export async function verifyManageLink(token: string): Promise<string | null> {
+    const payload = await verifyToken<ManageTokenPayload>(token, "manage");
+    return payload?.itemId ?? null;
+}
+
+export async function createTrackingLink(claimId: string): Promise<string> {
+    const token = await signToken<TrackingTokenPayload>({
+        claimId,
+        purpose: "track",
+        exp: Math.floor(Date.now() / 1000) + TRACKING_LINK_MAX_AGE,
+    });
+    return siteUrl(`/track/${token}`);
+}
+
+export async function verifyTrackingLink(token: string): Promise<string | null> {
+    const payload = await verifyToken<TrackingTokenPayload>(token, "track");
+    return payload?.claimId ?? null;
+}
+
+export async function createAlertsLink(email: string, confirmSearchId?: string): Promise<string> {
+    const token = await signToken<AlertsTokenPayload>({
+        email,
+        confirm: confirmSearchId,
+        purpose: "alerts",
+        exp: Math.floor(Date.now() / 1000) + ALERTS_LINK_MAX_AGE,
+    });
+    return siteUrl(`/alerts/${token}`);
+}
+
+export async function verifyAlertsLink(token: string): Promise<Pick<AlertsTokenPayload, "email" | "confirm"> | null> {
+    const payload = await verifyToken<AlertsTokenPayload>(token, "alerts");
+    return payload ? { email: payload.email, confirm: payload.confirm } : null;
+}
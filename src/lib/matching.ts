@@ -0,0 +1,190 @@
+import { supabaseAdmin } from "./supabase-server";
+import { sendNotification } from "./notifications";
+import { dice, normalizeText, tokenize } from "./text";
+import { MATCHABLE_STATUSES } from "./lifecycle";
+import { attributeFields } from "./attributes";
+import { Item, ItemMatch, MatchBreakdown } from "./types";
+
+// Weights add up to 100 so a match score reads as a percentage.
+const WEIGHTS = { category: 20, location: 20, date: 15, text: 30, attributes: 15 };
+
+// A found date more than two weeks away from the lost date earns no date points.
+const DATE_WINDOW_DAYS = 14;
+
+const MIN_MATCH_SCORE = 40;
+const MAX_MATCHES_PER_ITEM = 5;
+
+type MatchableItem = Pick<
+    Item,
+    "id" | "type" | "category" | "location" | "date_occurred" | "title" | "description" | "attributes" | "private_attributes"
+>;
+
+const MATCHABLE_COLUMNS =
+    "id, type, category, location, date_occurred, title, description, attributes, private_attributes";
+
+function daysBetween(a: string, b: string): number {
+    return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (1000 * 60 * 60 * 24);
+}
+
+function fieldSimilarity(a: string, b: string): number {
+    return normalizeText(a) === normalizeText(b) ? 1 : dice(tokenize(a), tokenize(b));
+}
+
+/**
+ * How well the category details both reports filled in agree, from 0 to 1. An identifier such
+ * as a serial number settles it either way; null when there is nothing to compare.
+ */
+function attributeSimilarity(lost: MatchableItem, found: MatchableItem): number | null {
+    if (lost.category !== found.category) return null;
+
+    const lostValues = { ...lost.attributes, ...lost.private_attributes };
+    const foundValues = { ...found.attributes, ...found.private_attributes };
+    const shared = attributeFields(lost.category).filter((field) => lostValues[field.key] && foundValues[field.key]);
+    if (shared.length === 0) return null;
+
+    const identifier = shared.find((field) => field.identifier);
+    if (identifier) return fieldSimilarity(lostValues[identifier.key], foundValues[identifier.key]) === 1 ? 1 : 0;
+
+    return shared.reduce((sum, field) => sum + fieldSimilarity(lostValues[field.key], foundValues[field.key]), 0) / shared.length;
+}
+
+export function scoreMatch(lost: MatchableItem, found: MatchableItem): MatchBreakdown {
+    let category = 0;
+    if (lost.category === found.category) {
+        category = WEIGHTS.category;
+    } else if (lost.category === "other" || found.category === "other") {
+        category = WEIGHTS.category * 0.4;
+    }
+
+    const location = lost.location === found.location ? WEIGHTS.location : 0;
+
+    // Items are usually found after they are lost; a found date well before the lost date is unlikely
+    const foundFirst = new Date(found.date_occurred) < new Date(lost.date_occurred);
+    const days = daysBetween(lost.date_occurred, found.date_occurred) + (foundFirst ? DATE_WINDOW_DAYS / 2 : 0);
+    const date = WEIGHTS.date * Math.max(0, 1 - days / DATE_WINDOW_DAYS);
+
+    const titleSimilarity = dice(tokenize(lost.title), tokenize(found.title));
+    const fullSimilarity = dice(
+        tokenize(`${lost.title} ${lost.description}`),
+        tokenize(`${found.title} ${found.description}`)
+    );
+    const textSimilarity = Math.max(titleSimilarity, 0.4 * titleSimilarity + 0.6 * fullSimilarity);
+    const text = WEIGHTS.text * textSimilarity;
+
+    // Reports without comparable details are scored on their text instead, so leaving the
+    // optional fields blank does not cost points
+    const attributes = WEIGHTS.attributes * (attributeSimilarity(lost, found) ?? textSimilarity);
+
+    return {
+        category: Math.round(category),
+        location: Math.round(location),
+        date: Math.round(date),
+        text: Math.round(text),
+        attributes: Math.round(attributes),
+    };
+}
+
+export function totalScore(breakdown: MatchBreakdown): number {
+    return breakdown.category + breakdown.location + breakdown.date + breakdown.text + (breakdown.attributes ?? 0);
+}
+
+/**
+ * Scores an approved item against every open report of the opposite type and stores the
+ * strongest candidates in item_matches. Returns the stored matches, best first.
+ */
+export async function findMatchesForItem(item: MatchableItem): Promise<ItemMatch[]> {
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .select(MATCHABLE_COLUMNS)
+        .eq("type", item.type === "lost" ? "found" : "lost")
+        .in("status", MATCHABLE_STATUSES)
+        .is("deleted_at", null);
+
+    if (error) {
+        console.error("Error loading match candidates:", error);
+        return [];
+    }
+
+    const candidates = ((data as MatchableItem[]) || [])
+        .map((candidate) => {
+            const [lost, found] = item.type === "lost" ? [item, candidate] : [candidate, item];
+            const breakdown = scoreMatch(lost, found);
+            return {
+                lost_item_id: lost.id,
+                found_item_id: found.id,
+                breakdown,
+                score: totalScore(breakdown),
+            };
+        })
+        .filter((match) => match.score >= MIN_MATCH_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_MATCHES_PER_ITEM);
+
+    if (candidates.length === 0) return [];
+
+    const { data: stored, error: insertError } = await supabaseAdmin
+        .from("item_matches")
+        .upsert(candidates, { onConflict: "lost_item_id,found_item_id" })
+        .select();
+
+    if (insertError) {
+        console.error("Error storing item matches:", insertError);
+        return [];
+    }
+
+    return ((stored as ItemMatch[]) || []).sort((a, b) => b.score - a.score);
+}
+
+/** Lets the owners of matched lost reports know a similar found item came in. */
+export async function notifyMatchedReporters(matches: ItemMatch[]): Promise<void> {
+    const lostIds = Array.from(new Set(matches.map((match) => match.lost_item_id)));
+    if (lostIds.length === 0) return;
+
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .select("id, title, contact_email")
+        .in("id", lostIds);
+
+    if (error) {
+        console.error("Error loading matched reporters:", error);
+        return;
+    }
+
+    await Promise.all(
+        ((data as Pick<Item, "id" | "title" | "contact_email">[]) || []).map((lost) =>
+            sendNotification({ type: "match_found", to: lost.contact_email, itemId: lost.id, itemTitle: lost.title })
+        )
+    );
+}
+
+/**
+ * Matches a report once a moderator lists it, so nothing unreviewed is matched or announced.
+ * Only pairs that are new get an email: a report listed again after an edit just has its
+ * existing pairs rescored.
+ */
+export async function matchApprovedItem(itemId: string): Promise<void> {
+    const { data: item, error } = await supabaseAdmin
+        .from("items")
+        .select(MATCHABLE_COLUMNS)
+        .eq("id", itemId)
+        .maybeSingle();
+
+    if (error || !item) {
+        if (error) console.error("Error loading item to match:", error);
+        return;
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+        .from("item_matches")
+        .select("lost_item_id, found_item_id")
+        .or(`lost_item_id.eq.${itemId},found_item_id.eq.${itemId}`);
+
+    if (existingError) {
+        console.error("Error loading existing matches:", existingError);
+        return;
+    }
+
+    const known = new Set((existing || []).map((match) => `${match.lost_item_id}:${match.found_item_id}`));
+    const matches = await findMatchesForItem(item as MatchableItem);
+    await notifyMatchedReporters(matches.filter((match) => !known.has(`${match.lost_item_id}:${match.found_item_id}`)));
+}
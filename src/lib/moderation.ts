@@ -0,0 +1,45 @@
+import { normalizeText } from "./text";
+import { Item, ModerationFlag } from "./types";
+
+// Automated pre-screen for the moderation queue. It only flags reports for a closer look;
+// approving or rejecting is always a moderator's decision.
+
+// Whole words only, so "Scunthorpe" or "class" are not flagged
+const PROFANITY = new Set([
+    "ass", "asshole", "bastard", "bitch", "bitches", "bullshit", "cock", "cunt", "damn", "dick",
+    "fag", "faggot", "fuck", "fucked", "fucker", "fucking", "motherfucker", "piss", "pissed",
+    "retard", "shit", "shitty", "slut", "whore",
+]);
+
+const PHONE_NUMBER = /(?:\+?1[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const EMAIL_ADDRESS = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+// A capitalized first and last name right after a phrase that introduces someone, e.g.
+// "belongs to Jane Smith". Bare capitalized pairs are too often brands ("Nike Hoodie").
+const NAME_CUE = /\b(?:name is|name:|named|belongs to|owner is|property of|owned by)\s+/gi;
+const FULL_NAME = /^[A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)+/;
+
+function screenText(field: ModerationFlag["field"], text: string): ModerationFlag[] {
+    const flags: ModerationFlag[] = [];
+
+    for (const word of Array.from(new Set(normalizeText(text).split(" ")))) {
+        if (PROFANITY.has(word)) flags.push({ kind: "profanity", field, match: word });
+    }
+    for (const match of text.match(PHONE_NUMBER) ?? []) {
+        flags.push({ kind: "phone", field, match });
+    }
+    for (const match of text.match(EMAIL_ADDRESS) ?? []) {
+        flags.push({ kind: "email", field, match });
+    }
+    for (const cue of Array.from(text.matchAll(NAME_CUE))) {
+        const name = text.slice(cue.index + cue[0].length).match(FULL_NAME);
+        if (name) flags.push({ kind: "name", field, match: name[0] });
+    }
+
+    return flags;
+}
+
+/** Flags profanity and personal data (phone numbers, email addresses, full names) in a report. */
+export function screenReport(report: Pick<Item, "title" | "description">): ModerationFlag[] {
+    return [...screenText("title", report.title), ...screenText("description", report.description)];
+}
@@ -0,0 +1,284 @@
+import { supabaseAdmin } from "./supabase-server";
+import { getMailer, MailMessage } from "./mailer";
+import { siteUrl } from "./manage";
+import { ItemType } from "./types";
+
+// Every email goes through the email_outbox table first, so a send that fails (SMTP down,
+// bad credentials) is kept and retried by processOutbox() instead of being lost. Bodies hold
+// pickup codes and signed links, so they are blanked once a message is sent or given up on,
+// and pruneOutbox() deletes old rows altogether.
+
+const MAX_ATTEMPTS = 5;
+const OUTBOX_RETENTION_DAYS = 7;
+
+export type NotificationEvent =
+    | { type: "report_received"; to: string; itemId: string; itemTitle: string; itemType: ItemType; manageUrl: string }
+    | { type: "report_approved"; to: string; itemId: string; itemTitle: string }
+    | { type: "report_changes_requested"; to: string; itemTitle: string; message: string; manageUrl: string }
+    | { type: "report_rejected"; to: string; itemTitle: string; message: string; manageUrl: string }
+    | { type: "claim_received"; to: string; claimantName: string; itemTitle: string; trackingUrl: string }
+    | {
+          type: "claim_approved";
+          to: string;
+          claimantName: string;
+          itemTitle: string;
+          pickupCode: string;
+          pickupUrl: string;
+          staffMessage: string | null;
+      }
+    | { type: "claim_denied"; to: string; claimantName: string; itemTitle: string; staffMessage: string | null }
+    | { type: "claim_superseded"; to: string; claimantName: string; itemTitle: string }
+    | { type: "claim_closed"; to: string; claimantName: string; itemTitle: string }
+    | { type: "match_found"; to: string; itemId: string; itemTitle: string }
+    | { type: "saved_search_confirm"; to: string; summary: string; confirmUrl: string }
+    | {
+          type: "saved_search_match";
+          to: string;
+          summary: string;
+          itemId: string;
+          itemTitle: string;
+          alertsUrl: string;
+          unsubscribeUrl: string;
+      }
+    | { type: "pickup_scheduled"; to: string; claimantName: string; itemTitle: string; slot: string; location: string }
+    | { type: "pickup_code_reissued"; to: string; claimantName: string; itemTitle: string; pickupCode: string; pickupUrl: string };
+
+interface OutboxEntry {
+    id: string;
+    to_address: string;
+    template: NotificationEvent["type"];
+    subject: string;
+    body: string;
+    status: "pending" | "sent" | "failed";
+    attempts: number;
+    last_error: string | null;
+    created_at: string;
+    sent_at: string | null;
+}
+
+const SIGN_OFF = "\n\n— School Lost & Found";
+
+function staffNote(message: string | null): string {
+    return message ? `A note from staff:\n${message}\n\n` : "";
+}
+
+export function renderNotification(event: NotificationEvent): Omit<MailMessage, "to"> {
+    switch (event.type) {
+        case "report_received":
+            return {
+                subject: `We received your ${event.itemType} item report`,
+                text:
+                    `Thanks for reporting "${event.itemTitle}". A staff member will review it shortly, ` +
+                    `and it will appear in the public list once approved.\n\n` +
+                    `To fix a mistake, add a photo or withdraw the report, use your private link:\n` +
+                    `${event.manageUrl}\n\nAnyone with this link can change your report, so keep it to yourself.` +
+                    SIGN_OFF,
+            };
+        case "report_approved":
+            return {
+                subject: `Your report "${event.itemTitle}" is now listed`,
+                text:
+                    `Your report has been approved and is visible to the school community:\n` +
+                    `${siteUrl(`/items/${event.itemId}`)}` +
+                    SIGN_OFF,
+            };
+        case "report_changes_requested":
+            return {
+                subject: `Please update your report "${event.itemTitle}"`,
+                text:
+                    `A staff member reviewed your report and needs a change before it can be listed:\n\n` +
+                    `${event.message}\n\nYou can edit your report here, and it will be reviewed again ` +
+                    `once you save:\n${event.manageUrl}` +
+                    SIGN_OFF,
+            };
+        case "report_rejected":
+            return {
+                subject: `Your report "${event.itemTitle}" was not listed`,
+                text:
+                    `A staff member reviewed your report and could not list it:\n\n${event.message}\n\n` +
+                    `If you think this is a mistake, you can edit the report and send it for review again:\n` +
+                    `${event.manageUrl}` +
+                    SIGN_OFF,
+            };
+        case "claim_received":
+            return {
+                subject: `We received your claim for "${event.itemTitle}"`,
+                text:
+                    `Hi ${event.claimantName},\n\nYour claim has been submitted. Staff will compare your ` +
+                    `answer with the report and email you with their decision.\n\n` +
+                    `Follow your claim, add more proof or withdraw it here:\n${event.trackingUrl}` +
+                    SIGN_OFF,
+            };
+        case "claim_approved":
+            return {
+                subject: `Your claim for "${event.itemTitle}" was approved`,
+                text:
+                    `Hi ${event.claimantName},\n\nGood news — your claim has been approved.\n\n` +
+                    staffNote(event.staffMessage) +
+                    `Choose a time to collect it here:\n${event.pickupUrl}\n\n` +
+                    `Your pickup code is ${event.pickupCode}. Show it to staff at the desk — it can ` +
+                    `only be used once, so do not share it. Bring your student ID.` +
+                    SIGN_OFF,
+            };
+        case "claim_denied":
+            return {
+                subject: `Update on your claim for "${event.itemTitle}"`,
+                text:
+                    `Hi ${event.claimantName},\n\nUnfortunately we could not verify your claim.\n\n` +
+                    staffNote(event.staffMessage) +
+                    `If you believe this is a mistake, please stop by the main office.` +
+                    SIGN_OFF,
+            };
+        case "claim_superseded":
+            return {
+                subject: `Update on your claim for "${event.itemTitle}"`,
+                text:
+                    `Hi ${event.claimantName},\n\nMore than one person claimed this item, and staff have ` +
+                    `approved another claim after checking the evidence, so your claim has been closed. ` +
+                    `If you still believe the item is yours, please stop by the main office.` +
+                    SIGN_OFF,
+            };
+        case "claim_closed":
+            return {
+                subject: `Update on your claim for "${event.itemTitle}"`,
+                text:
+                    `Hi ${event.claimantName},\n\nThe person who reported this item has withdrawn their ` +
+                    `report, so your claim has been closed. If you still believe the item is yours, please ` +
+                    `stop by the main office.` +
+                    SIGN_OFF,
+            };
+        case "match_found":
+            return {
+                subject: `A possible match for "${event.itemTitle}"`,
+                text:
+                    `Someone reported an item that looks similar to yours. Staff will review it, and you ` +
+                    `can check the latest reports here:\n${siteUrl("/browse")}\n\nYour report: ` +
+                    `${siteUrl(`/items/${event.itemId}`)}` +
+                    SIGN_OFF,
+            };
+        case "saved_search_confirm":
+            return {
+                subject: "Confirm your Lost & Found alert",
+                text:
+                    `You asked to be emailed when an item matching this search is listed:\n${event.summary}\n\n` +
+                    `Open this link to turn the alert on:\n${event.confirmUrl}\n\n` +
+                    `If you did not ask for this, ignore this email and no alerts will be sent.` +
+                    SIGN_OFF,
+            };
+        case "saved_search_match":
+            return {
+                subject: `New item matching your alert: "${event.itemTitle}"`,
+                text:
+                    `An item matching your saved search (${event.summary}) was just listed:\n` +
+                    `${siteUrl(`/items/${event.itemId}`)}\n\n` +
+                    `Manage your alerts: ${event.alertsUrl}\n` +
+                    `Stop this alert: ${event.unsubscribeUrl}` +
+                    SIGN_OFF,
+            };
+        case "pickup_scheduled":
+            return {
+                subject: `Pickup booked for "${event.itemTitle}"`,
+                text:
+                    `Hi ${event.claimantName},\n\nYou are booked to collect your item at the ${event.location} ` +
+                    `on ${event.slot}. Bring your pickup code and student ID.` +
+                    SIGN_OFF,
+            };
+        case "pickup_code_reissued":
+            return {
+                subject: `New pickup code for "${event.itemTitle}"`,
+                text:
+                    `Hi ${event.claimantName},\n\nStaff issued you a new pickup code: ${event.pickupCode}. ` +
+                    `Your previous code no longer works.\n\nChoose or change your pickup time here:\n` +
+                    `${event.pickupUrl}` +
+                    SIGN_OFF,
+            };
+    }
+}
+
+async function deliver(entry: Pick<OutboxEntry, "id" | "to_address" | "subject" | "body" | "attempts">): Promise<boolean> {
+    const attempts = entry.attempts + 1;
+
+    try {
+        await getMailer().send({ to: entry.to_address, subject: entry.subject, text: entry.body });
+        await supabaseAdmin
+            .from("email_outbox")
+            .update({ status: "sent", body: "", attempts, sent_at: new Date().toISOString(), last_error: null })
+            .eq("id", entry.id);
+        return true;
+    } catch (error) {
+        console.error("Error sending email:", error);
+        const failed = attempts >= MAX_ATTEMPTS;
+        await supabaseAdmin
+            .from("email_outbox")
+            .update({
+                status: failed ? "failed" : "pending",
+                ...(failed && { body: "" }),
+                attempts,
+                last_error: error instanceof Error ? error.message : String(error),
+            })
+            .eq("id", entry.id);
+        return false;
+    }
+}
+
+/**
+ * Queues an email for a lifecycle event and tries to send it straight away. Never throws:
+ * a notification problem must not fail the action that triggered it.
+ */
+export async function sendNotification(event: NotificationEvent): Promise<void> {
+    try {
+        const { subject, text } = renderNotification(event);
+        const { data, error } = await supabaseAdmin
+            .from("email_outbox")
+            .insert({ to_address: event.to, template: event.type, subject, body: text })
+            .select("id, to_address, subject, body, attempts")
+            .single();
+
+        if (error) {
+            console.error("Error queueing email:", error);
+            return;
+        }
+
+        await deliver(data);
+    } catch (error) {
+        console.error("Error sending notification:", error);
+    }
+}
+
+/** Retries queued emails that have not been sent yet. Returns how many were delivered. */
+export async function processOutbox(limit = 50): Promise<{ sent: number; failed: number }> {
+    const { data, error } = await supabaseAdmin
+        .from("email_outbox")
+        .select("id, to_address, subject, body, attempts")
+        .eq("status", "pending")
+        .order("created_at", { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        console.error("Error loading email outbox:", error);
+        return { sent: 0, failed: 0 };
+    }
+
+    let sent = 0;
+    for (const entry of data || []) {
+        if (await deliver(entry)) sent++;
+    }
+
+    return { sent, failed: (data?.length ?? 0) - sent };
+}
+
+/** Deletes outbox rows older than the retention window, whether or not they were ever sent. */
+export async function pruneOutbox(): Promise<number> {
+    const cutoff = new Date(Date.now() - OUTBOX_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { count, error } = await supabaseAdmin
+        .from("email_outbox")
+        .delete({ count: "exact" })
+        .lt("created_at", cutoff);
+
+    if (error) {
+        console.error("Error pruning email outbox:", error);
+        return 0;
+    }
+
+    return count ?? 0;
+}
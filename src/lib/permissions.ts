@@ -0,0 +1,29 @@
+import { StaffRole } from "./types";
+
+export type Permission =
+    | "items:approve"
+    | "items:return"
+    | "items:delete"
+    | "items:custody"
+    | "claims:decide"
+    | "matches:review"
+    | "settings:manage";
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+    viewer: [],
+    moderator: ["items:approve", "claims:decide", "matches:review"],
+    custodian: ["items:return", "items:custody"],
+    super_admin: [
+        "items:approve",
+        "items:return",
+        "items:delete",
+        "items:custody",
+        "claims:decide",
+        "matches:review",
+        "settings:manage",
+    ],
+};
+
+export function hasPermission(role: StaffRole, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
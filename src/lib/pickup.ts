@@ -0,0 +1,152 @@
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { supabaseAdmin } from "./supabase-server";
+import { getSessionSecret, signToken, verifyToken } from "./session";
+import { siteUrl } from "./manage";
+import { PickupSlot } from "./types";
+
+// Approved claims get a one-time pickup code (emailed to the claimant, stored as a keyed hash;
+// the outbox blanks the email body once it is sent) and a signed link for choosing an
+// office-hours slot. Staff type the code in at the desk to release the item.
+
+export const PICKUP_LOCATION = "Main Office";
+export const PICKUP_CODE_MAX_ATTEMPTS = 5;
+
+export const OFFICE_HOURS = {
+    timeZone: process.env.SCHOOL_TIME_ZONE || "America/New_York",
+    // 0 = Sunday
+    weekdays: [1, 2, 3, 4, 5],
+    open: { hour: 8, minute: 0 },
+    close: { hour: 15, minute: 30 },
+    slotMinutes: 30,
+    perSlot: 4,
+    bookingDays: 10,
+    // Slots starting sooner than this cannot be booked
+    minNoticeMinutes: 60,
+};
+
+const PICKUP_LINK_MAX_AGE = 60 * 60 * 24 * 30; // 30 days, in seconds
+
+// No 0/O or 1/I/L so codes survive being read aloud or copied by hand
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+interface PickupTokenPayload {
+    claimId: string;
+    purpose: "pickup";
+    exp: number;
+}
+
+function normalizeCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function generatePickupCode(): string {
+    const chars = Array.from({ length: 8 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]);
+    return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+export function hashPickupCode(code: string): string {
+    return createHmac("sha256", getSessionSecret()).update(`pickup:${normalizeCode(code)}`).digest("hex");
+}
+
+export function verifyPickupCode(code: string, expectedHash: string): boolean {
+    const given = Buffer.from(hashPickupCode(code), "hex");
+    const expected = Buffer.from(expectedHash, "hex");
+    return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export async function createPickupLink(claimId: string): Promise<string> {
+    const token = await signToken<PickupTokenPayload>({
+        claimId,
+        purpose: "pickup",
+        exp: Math.floor(Date.now() / 1000) + PICKUP_LINK_MAX_AGE,
+    });
+    return siteUrl(`/pickup/${token}`);
+}
+
+export async function verifyPickupLink(token: string): Promise<string | null> {
+    const payload = await verifyToken<PickupTokenPayload>(token, "pickup");
+    return payload?.claimId ?? null;
+}
+
+export function formatPickupSlot(slot: string): string {
+    return new Date(slot).toLocaleString("en-US", {
+        timeZone: OFFICE_HOURS.timeZone,
+        weekday: "long",
+        month: "long",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+    });
+}
+
+// Milliseconds the time zone is ahead of UTC at the given instant
+function timeZoneOffset(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    }).formatToParts(date);
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - date.getTime();
+}
+
+function schoolTimeToUtc(year: number, month: number, day: number, hour: number, minute: number): Date {
+    const guess = Date.UTC(year, month, day, hour, minute);
+    return new Date(guess - timeZoneOffset(new Date(guess), OFFICE_HOURS.timeZone));
+}
+
+/** Every office-hours slot in the booking window, marked unavailable once it is full. */
+export async function getPickupSlots(): Promise<PickupSlot[]> {
+    const now = new Date();
+    const earliest = now.getTime() + OFFICE_HOURS.minNoticeMinutes * 60 * 1000;
+    const today = new Date(now.getTime() + timeZoneOffset(now, OFFICE_HOURS.timeZone));
+
+    const starts: Date[] = [];
+    for (let offset = 0; offset < OFFICE_HOURS.bookingDays; offset++) {
+        const day = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + offset));
+        if (!OFFICE_HOURS.weekdays.includes(day.getUTCDay())) continue;
+
+        const openMinutes = OFFICE_HOURS.open.hour * 60 + OFFICE_HOURS.open.minute;
+        const closeMinutes = OFFICE_HOURS.close.hour * 60 + OFFICE_HOURS.close.minute;
+        for (let minutes = openMinutes; minutes + OFFICE_HOURS.slotMinutes <= closeMinutes; minutes += OFFICE_HOURS.slotMinutes) {
+            const start = schoolTimeToUtc(
+                day.getUTCFullYear(),
+                day.getUTCMonth(),
+                day.getUTCDate(),
+                Math.floor(minutes / 60),
+                minutes % 60
+            );
+            if (start.getTime() >= earliest) starts.push(start);
+        }
+    }
+
+    if (starts.length === 0) return [];
+
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .select("pickup_slot")
+        .gte("pickup_slot", starts[0].toISOString())
+        .lte("pickup_slot", starts[starts.length - 1].toISOString())
+        .is("released_at", null)
+        .is("deleted_at", null);
+
+    if (error) {
+        console.error("Error loading booked pickup slots:", error);
+    }
+
+    const booked = new Map<number, number>();
+    for (const row of data || []) {
+        const time = new Date(row.pickup_slot).getTime();
+        booked.set(time, (booked.get(time) ?? 0) + 1);
+    }
+
+    return starts.map((start) => ({
+        start: start.toISOString(),
+        available: (booked.get(start.getTime()) ?? 0) < OFFICE_HOURS.perSlot,
+    }));
+}
@@ -0,0 +1,86 @@
+import { supabaseAdmin } from "./supabase-server";
+import { ACCEPTED_IMAGE_TYPES, ClaimProof, MAX_IMAGE_SIZE } from "./types";
+
+// Proof photos can show receipts, serial numbers or ID, so unlike item photos they are kept in
+// a private bucket and only ever handed out as short-lived signed URLs.
+
+const PROOF_BUCKET = "claim-proofs";
+const SIGNED_URL_TTL = 60 * 10; // 10 minutes, in seconds
+
+/** Stores a proof photo and returns its path in the bucket. */
+export async function uploadProofImage(file: File): Promise<string | null> {
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type) || file.size > MAX_IMAGE_SIZE) {
+        console.error("Rejected proof upload:", file.type, file.size);
+        return null;
+    }
+
+    const fileExt = file.name.split(".").pop();
+    const path = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+
+    const { error } = await supabaseAdmin.storage
+        .from(PROOF_BUCKET)
+        .upload(path, file, { contentType: file.type });
+
+    if (error) {
+        console.error("Error uploading proof image:", error);
+        return null;
+    }
+
+    return path;
+}
+
+/** Proofs for the given claims, oldest first, with signed URLs for their photos. */
+export async function getClaimProofs(claimIds: string[]): Promise<ClaimProof[]> {
+    if (claimIds.length === 0) return [];
+
+    const { data, error } = await supabaseAdmin
+        .from("claim_proofs")
+        .select("*")
+        .in("claim_id", claimIds)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        console.error("Error fetching claim proofs:", error);
+        return [];
+    }
+
+    const proofs = (data as ClaimProof[]) || [];
+    const paths = proofs.map((proof) => proof.image_path).filter((path): path is string => !!path);
+    if (paths.length === 0) return proofs;
+
+    const { data: signed, error: signError } = await supabaseAdmin.storage
+        .from(PROOF_BUCKET)
+        .createSignedUrls(paths, SIGNED_URL_TTL);
+
+    if (signError) {
+        console.error("Error signing proof images:", signError);
+    }
+
+    const urls = new Map((signed || []).map((entry) => [entry.path, entry.signedUrl]));
+    return proofs.map((proof) => ({
+        ...proof,
+        image_url: proof.image_path ? urls.get(proof.image_path) ?? null : null,
+    }));
+}
+
+/** Deletes the proof photos of claims that are about to be purged. */
+export async function removeProofImages(claimIds: string[]): Promise<void> {
+    if (claimIds.length === 0) return;
+
+    const { data, error } = await supabaseAdmin
+        .from("claim_proofs")
+        .select("image_path")
+        .in("claim_id", claimIds)
+        .not("image_path", "is", null);
+
+    if (error) {
+        console.error("Error loading proof images:", error);
+        return;
+    }
+
+    const paths = (data || []).map((row) => row.image_path as string);
+    if (paths.length === 0) return;
+
+    const { error: storageError } = await supabaseAdmin.storage.from(PROOF_BUCKET).remove(paths);
+    if (storageError) console.error("Error removing proof images:", storageError);
+}
@@ -0,0 +1,856 @@
+"use server";
+
+import { supabaseAdmin } from "./supabase-server";
+import { fingerprintAnswer, scoreAnswer } from "./answers";
+import { sendNotification } from "./notifications";
+import { recordAudit } from "./audit";
+import { reopenItemIfUnclaimed, transitionItem } from "./transitions";
+import { removeItemImage } from "./trash";
+import {
+    createAlertsLink,
+    createManageLink,
+    createTrackingLink,
+    verifyAlertsLink,
+    verifyManageLink,
+    verifyTrackingLink,
+} from "./manage";
+import { getClaimProofs, uploadProofImage } from "./proofs";
+import { getClientIp, isRateLimited, recordHit, RATE_LIMITS, WEAK_CLAIM_SCORE } from "./rate-limit";
+import { passesChallenge } from "./challenge";
+import { describeSearch } from "./browse-filters";
+import { resolveMapPosition, zoneLocations } from "./campus-map";
+import { getTaxonomy } from "./actions";
+import { refineTaxonomy } from "./taxonomy";
+import { parseAttributes } from "./attributes";
+import { canTransition, CLAIMABLE_STATUSES, EDITABLE_STATUSES } from "./lifecycle";
+import {
+    createPickupLink,
+    formatPickupSlot,
+    getPickupSlots,
+    verifyPickupLink,
+    OFFICE_HOURS,
+    PICKUP_LOCATION,
+} from "./pickup";
+import {
+    PublicItem,
+    Item,
+    Claim,
+    ClaimTracking,
+    PickupDetails,
+    ManagedReport,
+    SavedSearch,
+    SavedSearchCriteria,
+    SavedSearchList,
+    SubmissionError,
+    SubmissionResult,
+    fullReportSchema,
+    reportEditSchema,
+    reportWithdrawalSchema,
+    claimSubmissionSchema,
+    claimWithdrawalSchema,
+    claimProofSchema,
+    pickupScheduleSchema,
+    savedSearchSchema,
+    idSchema,
+    ACCEPTED_IMAGE_TYPES,
+    MAX_IMAGE_SIZE,
+    MAX_CLAIM_PHOTOS,
+    PUBLIC_ITEM_COLUMNS,
+} from "./types";
+
+async function uploadImage(file: File): Promise<string | null> {
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type) || file.size > MAX_IMAGE_SIZE) {
+        console.error("Rejected image upload:", file.type, file.size);
+        return null;
+    }
+
+    const fileExt = file.name.split(".").pop();
+    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+
+    const { error } = await supabaseAdmin.storage
+        .from("item-images")
+        .upload(fileName, file, { contentType: file.type });
+
+    if (error) {
+        console.error("Error uploading image:", error);
+        return null;
+    }
+
+    const { data } = supabaseAdmin.storage
+        .from("item-images")
+        .getPublicUrl(fileName);
+
+    return data.publicUrl;
+}
+
+// Form fields arrive as strings, but the campus map position is numeric and the category
+// details are sent as one JSON object
+function readReportForm(formData: FormData): Record<string, unknown> {
+    const fields: Record<string, unknown> = Object.fromEntries(formData);
+    for (const key of ["map_x", "map_y"]) {
+        if (typeof fields[key] === "string") fields[key] = Number(fields[key]);
+    }
+    if (typeof fields.attributes === "string") {
+        try {
+            fields.attributes = JSON.parse(fields.attributes);
+        } catch {
+            fields.attributes = null;
+        }
+    }
+    return fields;
+}
+
+// jsonb does not keep key order, so the category details are compared field by field
+function sameValue(a: unknown, b: unknown): boolean {
+    if (a && b && typeof a === "object" && typeof b === "object") {
+        const left = a as Record<string, unknown>;
+        const right = b as Record<string, unknown>;
+        const keys = Object.keys(left);
+        return keys.length === Object.keys(right).length && keys.every((key) => left[key] === right[key]);
+    }
+    return a === b;
+}
+
+/**
+ * Bot and flood checks shared by public reports and claims. Every attempt that gets past the
+ * challenge counts against the per-IP and per-email limits, whether or not it is saved.
+ */
+async function guardSubmission(
+    bucket: "report" | "claim" | "alert",
+    formData: FormData,
+    email: string
+): Promise<SubmissionError | null> {
+    const ip = getClientIp();
+    if (!(await passesChallenge(formData, ip))) {
+        console.error(`Rejected ${bucket} that failed the bot challenge`);
+        return "challenge_failed";
+    }
+
+    const [perIp, perEmail] =
+        bucket === "report"
+            ? [RATE_LIMITS.reportPerIp, RATE_LIMITS.reportPerEmail]
+            : bucket === "claim"
+              ? [RATE_LIMITS.claimPerIp, RATE_LIMITS.claimPerEmail]
+              : [RATE_LIMITS.alertPerIp, RATE_LIMITS.alertPerEmail];
+
+    if ((await isRateLimited(bucket, `ip:${ip}`, perIp)) || (await isRateLimited(bucket, `email:${email}`, perEmail))) {
+        console.error(`Rate limited ${bucket} submission`);
+        return "rate_limited";
+    }
+
+    await recordHit(bucket, [`ip:${ip}`, `email:${email}`]);
+    return null;
+}
+
+export async function createItem(
+    formData: FormData
+): Promise<SubmissionResult<{ item: PublicItem; manageUrl: string }>> {
+    const taxonomy = await getTaxonomy();
+    const parsed = refineTaxonomy(fullReportSchema, taxonomy).safeParse(readReportForm(formData));
+
+    if (!parsed.success) {
+        console.error("Invalid report submission:", parsed.error.issues);
+        return { ok: false, error: "invalid" };
+    }
+
+    const details = parseAttributes(parsed.data.category, parsed.data.attributes);
+    if (!details) {
+        console.error("Invalid report details for category:", parsed.data.category);
+        return { ok: false, error: "invalid" };
+    }
+
+    const blocked = await guardSubmission("report", formData, parsed.data.contact_email);
+    if (blocked) return { ok: false, error: blocked };
+
+    let imageUrl: string | null = null;
+    const image = formData.get("image");
+    if (image instanceof File && image.size > 0) {
+        imageUrl = await uploadImage(image);
+        if (!imageUrl) return { ok: false, error: "error" };
+    }
+
+    const report = parsed.data;
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .insert({
+            title: report.title,
+            description: report.description,
+            category: report.category,
+            type: report.type,
+            ...resolveMapPosition(report, zoneLocations(taxonomy.locations.filter((location) => !location.retired_at))),
+            ...details,
+            date_occurred: report.date_occurred,
+            time_occurred: report.time_occurred,
+            contact_email: report.contact_email,
+            image_url: imageUrl,
+            security_answer_fingerprint: fingerprintAnswer(report.security_answer),
+            status: "pending",
+        })
+        .select(PUBLIC_ITEM_COLUMNS)
+        .single();
+
+    if (error) {
+        console.error("Error creating item:", error);
+        return { ok: false, error: "error" };
+    }
+
+    const item = data as unknown as PublicItem;
+    const manageUrl = await createManageLink(item.id);
+
+    await recordAudit({
+        actor: null,
+        actorName: report.contact_email,
+        action: "item.created",
+        entityType: "item",
+        entityId: item.id,
+        item,
+        after: { status: item.status, type: item.type, category: item.category },
+    });
+
+    await sendNotification({
+        type: "report_received",
+        to: report.contact_email,
+        itemId: item.id,
+        itemTitle: item.title,
+        itemType: item.type,
+        manageUrl,
+    });
+
+    return { ok: true, item, manageUrl };
+}
+
+const MANAGED_REPORT_COLUMNS =
+    "id, title, description, category, type, location, map_floor, map_x, map_y, attributes, private_attributes, date_occurred, time_occurred, image_url, status, contact_email, moderation_note, created_at";
+
+export async function getManagedReport(token: string): Promise<ManagedReport | null> {
+    const itemId = await verifyManageLink(token);
+    if (!itemId) return null;
+
+    const { data } = await supabaseAdmin
+        .from("items")
+        .select(MANAGED_REPORT_COLUMNS)
+        .eq("id", itemId)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    return (data as ManagedReport | null) ?? null;
+}
+
+/**
+ * Saves the reporter's edits. A listed or rejected report goes back to pending so staff
+ * review the new wording or photo before it is shown publicly again.
+ */
+export async function updateManagedReport(token: string, formData: FormData): Promise<ManagedReport | null> {
+    const report = await getManagedReport(token);
+    if (!report || !EDITABLE_STATUSES.includes(report.status)) return null;
+
+    const taxonomy = await getTaxonomy();
+    const parsed = refineTaxonomy(reportEditSchema, taxonomy, report).safeParse(readReportForm(formData));
+    if (!parsed.success) {
+        console.error("Invalid report edit:", parsed.error.issues);
+        return null;
+    }
+
+    const { attributes, ...edits } = parsed.data;
+    const details = parseAttributes(edits.category, attributes);
+    if (!details) {
+        console.error("Invalid report details for category:", edits.category);
+        return null;
+    }
+
+    let imageUrl = report.image_url;
+    const image = formData.get("image");
+    if (image instanceof File && image.size > 0) {
+        imageUrl = await uploadImage(image);
+        if (!imageUrl) return null;
+    }
+
+    const changes = {
+        ...edits,
+        // A report may keep its own location's zone after that location is retired
+        ...resolveMapPosition(
+            edits,
+            zoneLocations(taxonomy.locations.filter((location) => !location.retired_at || location.name === report.location))
+        ),
+        ...details,
+        image_url: imageUrl,
+    };
+    const changed = (Object.keys(changes) as (keyof typeof changes)[]).filter(
+        (key) => !sameValue(changes[key], report[key])
+    );
+    if (changed.length === 0) return report;
+
+    // Edited reports go back to review in the same update, so unreviewed text is never public.
+    // Matching on the old status stops an edit from slipping past a moderator's decision.
+    const resubmitted = report.status !== "pending";
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .update(resubmitted ? { ...changes, status: "pending" } : changes)
+        .eq("id", report.id)
+        .eq("status", report.status)
+        .select(MANAGED_REPORT_COLUMNS)
+        .maybeSingle();
+
+    if (error || !data) {
+        if (error) console.error("Error updating report:", error);
+        return null;
+    }
+
+    if (imageUrl !== report.image_url && report.image_url) {
+        await removeItemImage(report.image_url);
+    }
+
+    await recordAudit({
+        actor: null,
+        actorName: report.contact_email,
+        action: "item.edited",
+        entityType: "item",
+        entityId: report.id,
+        item: { id: report.id, title: changes.title },
+        before: Object.fromEntries(changed.map((key) => [key, report[key]])),
+        after: Object.fromEntries(changed.map((key) => [key, changes[key]])),
+    });
+
+    if (resubmitted) {
+        await recordAudit({
+            actor: null,
+            actorName: report.contact_email,
+            action: "item.status_changed",
+            entityType: "item",
+            entityId: report.id,
+            item: { id: report.id, title: changes.title },
+            before: { status: report.status },
+            after: { status: "pending" },
+            reason: "Edited by the reporter",
+        });
+    }
+
+    return data as ManagedReport;
+}
+
+export async function withdrawManagedReport(token: string, reason?: string): Promise<boolean> {
+    const parsed = reportWithdrawalSchema.safeParse({ token, reason });
+    if (!parsed.success) {
+        console.error("Invalid report withdrawal:", parsed.error.issues);
+        return false;
+    }
+
+    const report = await getManagedReport(parsed.data.token);
+    if (!report || !canTransition(report.status, "withdrawn")) return false;
+
+    const moved = await transitionItem(report.id, "withdrawn", null, parsed.data.reason, report.contact_email);
+    if (!moved) return false;
+
+    await closeOpenClaims(report);
+    return true;
+}
+
+// A withdrawn report's pending claims can no longer be decided, so they are closed and told why
+async function closeOpenClaims(report: ManagedReport): Promise<void> {
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .update({ status: "closed" })
+        .eq("item_id", report.id)
+        .eq("status", "pending")
+        .is("deleted_at", null)
+        .select("id, claimant_name, claimant_email");
+
+    if (error) {
+        console.error("Error closing claims of withdrawn report:", error);
+        return;
+    }
+
+    for (const claim of data || []) {
+        await recordAudit({
+            actor: null,
+            actorName: report.contact_email,
+            action: "claim.closed",
+            entityType: "claim",
+            entityId: claim.id,
+            item: { id: report.id, title: report.title },
+            before: { status: "pending" },
+            after: { status: "closed", claimant: claim.claimant_name },
+            reason: "The reporter withdrew the report",
+        });
+
+        await sendNotification({
+            type: "claim_closed",
+            to: claim.claimant_email,
+            claimantName: claim.claimant_name,
+            itemTitle: report.title,
+        });
+    }
+}
+
+export async function createClaim(
+    formData: FormData
+): Promise<SubmissionResult<{ trackingUrl: string }>> {
+    const parsed = claimSubmissionSchema.safeParse(Object.fromEntries(formData));
+
+    if (!parsed.success) {
+        console.error("Invalid claim submission:", parsed.error.issues);
+        return { ok: false, error: "invalid" };
+    }
+
+    const photos = formData.getAll("photos").filter((photo): photo is File => photo instanceof File && photo.size > 0);
+    if (photos.length > MAX_CLAIM_PHOTOS) {
+        console.error("Too many claim photos:", photos.length);
+        return { ok: false, error: "invalid" };
+    }
+
+    const blocked = await guardSubmission("claim", formData, parsed.data.claimant_email);
+    if (blocked) return { ok: false, error: blocked };
+
+    const { data: item } = await supabaseAdmin
+        .from("items")
+        .select("id, title, status, security_answer_fingerprint")
+        .eq("id", parsed.data.item_id)
+        .in("status", CLAIMABLE_STATUSES)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    if (!item) {
+        console.error("Claim submitted for an item that is not open for claims:", parsed.data.item_id);
+        return { ok: false, error: "invalid" };
+    }
+
+    // Repeated poor answers on one item look like someone guessing, from either the same browser or address
+    const ip = getClientIp();
+    const guessKeys = [`${item.id}:ip:${ip}`, `${item.id}:email:${parsed.data.claimant_email}`];
+    for (const key of guessKeys) {
+        if (await isRateLimited("weak_claim", key, RATE_LIMITS.weakClaims)) {
+            console.error("Claimant is cooling down after weak claims on item:", item.id);
+            return { ok: false, error: "cooldown" };
+        }
+    }
+
+    // One open claim per person per item; competing claims from different people are fine
+    const { count: openClaims } = await supabaseAdmin
+        .from("claims")
+        .select("id", { count: "exact", head: true })
+        .eq("item_id", item.id)
+        .ilike("claimant_email", parsed.data.claimant_email.replace(/[\\%_]/g, "\\$&"))
+        .eq("status", "pending")
+        .is("deleted_at", null);
+
+    if (openClaims) {
+        console.error("Claimant already has an open claim on this item:", item.id);
+        return { ok: false, error: "duplicate" };
+    }
+
+    const answerFingerprint = fingerprintAnswer(parsed.data.security_answer);
+    const expected = (item as Pick<Item, "id" | "title" | "status" | "security_answer_fingerprint">).security_answer_fingerprint;
+    const matchScore = expected ? scoreAnswer(expected, answerFingerprint) : null;
+
+    const photoPaths: string[] = [];
+    for (const photo of photos) {
+        const path = await uploadProofImage(photo);
+        if (!path) return { ok: false, error: "error" };
+        photoPaths.push(path);
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .insert({
+            item_id: parsed.data.item_id,
+            claimant_name: parsed.data.claimant_name,
+            claimant_email: parsed.data.claimant_email,
+            security_answer_fingerprint: answerFingerprint,
+            match_score: matchScore,
+            explanation: parsed.data.explanation || null,
+            status: "pending",
+        })
+        // Only the id: the score and fingerprint must never reach the claimant
+        .select("id")
+        .single();
+
+    if (error) {
+        console.error("Error creating claim:", error);
+        return { ok: false, error: "error" };
+    }
+
+    const claim = data as Pick<Claim, "id">;
+    const trackingUrl = await createTrackingLink(claim.id);
+
+    if (matchScore !== null && matchScore < WEAK_CLAIM_SCORE) {
+        await recordHit("weak_claim", guessKeys);
+    }
+
+    if (photoPaths.length > 0) {
+        const { error: proofError } = await supabaseAdmin
+            .from("claim_proofs")
+            .insert(photoPaths.map((path) => ({ claim_id: claim.id, note: null, image_path: path })));
+
+        if (proofError) console.error("Error attaching claim photos:", proofError);
+    }
+
+    await recordAudit({
+        actor: null,
+        actorName: parsed.data.claimant_email,
+        action: "claim.created",
+        entityType: "claim",
+        entityId: claim.id,
+        item: { id: parsed.data.item_id, title: item.title },
+        after: { status: "pending", match_score: matchScore, photos: photoPaths.length },
+    });
+
+    if (item.status === "listed") {
+        await transitionItem(item.id, "claim_pending", null, "Claim submitted");
+    }
+
+    await sendNotification({
+        type: "claim_received",
+        to: parsed.data.claimant_email,
+        claimantName: parsed.data.claimant_name,
+        itemTitle: item.title,
+        trackingUrl,
+    });
+
+    return { ok: true, trackingUrl };
+}
+
+async function loadTrackedClaim(token: string) {
+    const claimId = await verifyTrackingLink(token);
+    if (!claimId) return null;
+
+    const { data } = await supabaseAdmin
+        .from("claims")
+        .select(
+            "id, claimant_name, claimant_email, status, staff_message, pickup_slot, released_at, created_at, item:items(id, title, status)"
+        )
+        .eq("id", claimId)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    if (!data) return null;
+
+    return {
+        ...data,
+        item: data.item as unknown as Pick<Item, "id" | "title" | "status"> | null,
+    };
+}
+
+export async function getClaimTracking(token: string): Promise<ClaimTracking | null> {
+    const claim = await loadTrackedClaim(token);
+    if (!claim || !claim.item) return null;
+
+    const awaitingPickup = claim.status === "approved" && !claim.released_at;
+
+    return {
+        itemId: claim.item.id,
+        itemTitle: claim.item.title,
+        claimantName: claim.claimant_name,
+        status: claim.status,
+        staffMessage: claim.staff_message,
+        createdAt: claim.created_at,
+        releasedAt: claim.released_at,
+        pickup: awaitingPickup
+            ? { location: PICKUP_LOCATION, slot: claim.pickup_slot, pickupUrl: await createPickupLink(claim.id) }
+            : null,
+        proofs: await getClaimProofs([claim.id]),
+        canWithdraw: claim.status === "pending" || awaitingPickup,
+        canAddProof: claim.status === "pending",
+    };
+}
+
+/** Lets the claimant back out of a pending claim, or an approved one they have not collected. */
+export async function withdrawClaim(token: string, reason?: string): Promise<boolean> {
+    const parsed = claimWithdrawalSchema.safeParse({ token, reason });
+    if (!parsed.success) {
+        console.error("Invalid claim withdrawal:", parsed.error.issues);
+        return false;
+    }
+
+    const claim = await loadTrackedClaim(parsed.data.token);
+    if (!claim || !(claim.status === "pending" || (claim.status === "approved" && !claim.released_at))) {
+        return false;
+    }
+
+    // The pickup code and slot go with the withdrawal, so the slot frees up for someone else
+    const { error } = await supabaseAdmin
+        .from("claims")
+        .update({ status: "withdrawn", pickup_code_hash: null, pickup_slot: null })
+        .eq("id", claim.id)
+        .eq("status", claim.status);
+
+    if (error) {
+        console.error("Error withdrawing claim:", error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: null,
+        actorName: claim.claimant_email,
+        action: "claim.withdrawn",
+        entityType: "claim",
+        entityId: claim.id,
+        item: claim.item,
+        before: { status: claim.status },
+        after: { status: "withdrawn" },
+        reason: parsed.data.reason,
+    });
+
+    if (claim.item) {
+        await reopenItemIfUnclaimed(claim.item, null, claim.claimant_email);
+    }
+
+    return true;
+}
+
+/** Adds a note and optional photo to a claim that is still waiting for review. */
+export async function addClaimProof(token: string, formData: FormData): Promise<boolean> {
+    const parsed = claimProofSchema.safeParse({ token, note: formData.get("note") });
+    if (!parsed.success) {
+        console.error("Invalid claim proof:", parsed.error.issues);
+        return false;
+    }
+
+    const claim = await loadTrackedClaim(parsed.data.token);
+    if (!claim || claim.status !== "pending") return false;
+
+    let imagePath: string | null = null;
+    const image = formData.get("image");
+    if (image instanceof File && image.size > 0) {
+        imagePath = await uploadProofImage(image);
+        if (!imagePath) return false;
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from("claim_proofs")
+        .insert({ claim_id: claim.id, note: parsed.data.note, image_path: imagePath })
+        .select("id")
+        .single();
+
+    if (error) {
+        console.error("Error adding claim proof:", error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: null,
+        actorName: claim.claimant_email,
+        action: "claim.proof_added",
+        entityType: "claim",
+        entityId: claim.id,
+        item: claim.item,
+        after: { proof_id: data.id, photo: imagePath !== null },
+    });
+
+    return true;
+}
+
+async function loadPickupClaim(token: string) {
+    const claimId = await verifyPickupLink(token);
+    if (!claimId) return null;
+
+    const { data } = await supabaseAdmin
+        .from("claims")
+        .select("id, claimant_name, claimant_email, pickup_slot, released_at, item:items(id, title)")
+        .eq("id", claimId)
+        .eq("status", "approved")
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    if (!data) return null;
+
+    return {
+        ...data,
+        item: data.item as unknown as Pick<Item, "id" | "title"> | null,
+    };
+}
+
+export async function getPickupDetails(token: string): Promise<PickupDetails | null> {
+    const claim = await loadPickupClaim(token);
+    if (!claim) return null;
+
+    return {
+        itemTitle: claim.item?.title ?? "Your item",
+        claimantName: claim.claimant_name,
+        pickupSlot: claim.pickup_slot,
+        releasedAt: claim.released_at,
+        location: PICKUP_LOCATION,
+        timeZone: OFFICE_HOURS.timeZone,
+        slots: claim.released_at ? [] : await getPickupSlots(),
+    };
+}
+
+export async function schedulePickup(token: string, slot: string): Promise<boolean> {
+    const parsed = pickupScheduleSchema.safeParse({ token, slot });
+    if (!parsed.success) {
+        console.error("Invalid pickup booking:", parsed.error.issues);
+        return false;
+    }
+
+    const claim = await loadPickupClaim(parsed.data.token);
+    if (!claim || claim.released_at) return false;
+
+    const requested = new Date(parsed.data.slot).getTime();
+    const match = (await getPickupSlots()).find((s) => new Date(s.start).getTime() === requested);
+    if (!match || !match.available) {
+        console.error("Pickup slot is not bookable:", parsed.data.slot);
+        return false;
+    }
+
+    const { error } = await supabaseAdmin
+        .from("claims")
+        .update({ pickup_slot: match.start })
+        .eq("id", claim.id);
+
+    if (error) {
+        console.error("Error booking pickup:", error);
+        return false;
+    }
+
+    await recordAudit({
+        actor: null,
+        actorName: claim.claimant_email,
+        action: "claim.pickup_scheduled",
+        entityType: "claim",
+        entityId: claim.id,
+        item: claim.item,
+        before: { pickup_slot: claim.pickup_slot },
+        after: { pickup_slot: match.start },
+    });
+
+    await sendNotification({
+        type: "pickup_scheduled",
+        to: claim.claimant_email,
+        claimantName: claim.claimant_name,
+        itemTitle: claim.item?.title ?? "your item",
+        slot: formatPickupSlot(match.start),
+        location: PICKUP_LOCATION,
+    });
+
+    return true;
+}
+
+const SAVED_SEARCH_CRITERIA: (keyof SavedSearchCriteria)[] = ["search", "type", "category", "location", "date_from", "date_to"];
+
+/**
+ * Saves a browse query for email alerts. Nothing is sent until the visitor opens the link in
+ * the confirmation email, so nobody can sign someone else up.
+ */
+export async function createSavedSearch(formData: FormData): Promise<SubmissionResult<{ email: string }>> {
+    const taxonomy = await getTaxonomy();
+    const parsed = refineTaxonomy(savedSearchSchema, taxonomy).safeParse(Object.fromEntries(formData));
+
+    if (!parsed.success) {
+        console.error("Invalid saved search:", parsed.error.issues);
+        return { ok: false, error: "invalid" };
+    }
+
+    const { email, search, type, category, location, date_from, date_to } = parsed.data;
+
+    const blocked = await guardSubmission("alert", formData, email);
+    if (blocked) return { ok: false, error: blocked };
+
+    const criteria: SavedSearchCriteria = {
+        search: search || null,
+        type: type ?? null,
+        category: category ?? null,
+        location: location ?? null,
+        date_from: date_from ?? null,
+        date_to: date_to ?? null,
+    };
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+        .from("saved_searches")
+        .select("*")
+        .eq("email", email);
+
+    if (existingError) {
+        console.error("Error checking saved searches:", existingError);
+        return { ok: false, error: "error" };
+    }
+
+    const alreadySaved = ((existing as SavedSearch[]) || []).some((saved) =>
+        SAVED_SEARCH_CRITERIA.every((key) => saved[key] === criteria[key])
+    );
+    if (alreadySaved) return { ok: false, error: "duplicate" };
+
+    const { data, error } = await supabaseAdmin
+        .from("saved_searches")
+        .insert({ email, ...criteria })
+        .select("id")
+        .single();
+
+    if (error) {
+        console.error("Error saving search:", error);
+        return { ok: false, error: "error" };
+    }
+
+    await sendNotification({
+        type: "saved_search_confirm",
+        to: email,
+        summary: describeSearch(criteria, taxonomy.categories),
+        confirmUrl: await createAlertsLink(email, data.id),
+    });
+
+    return { ok: true, email };
+}
+
+/** Lists the alerts for the link's email address, turning on the one it was sent to confirm. */
+export async function getSavedSearches(token: string): Promise<SavedSearchList | null> {
+    const link = await verifyAlertsLink(token);
+    if (!link) return null;
+
+    if (link.confirm) {
+        const { error } = await supabaseAdmin
+            .from("saved_searches")
+            .update({ confirmed_at: new Date().toISOString() })
+            .eq("id", link.confirm)
+            .eq("email", link.email)
+            .is("confirmed_at", null);
+
+        if (error) console.error("Error confirming saved search:", error);
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from("saved_searches")
+        .select("*")
+        .eq("email", link.email)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        console.error("Error fetching saved searches:", error);
+        return null;
+    }
+
+    return { email: link.email, searches: (data as SavedSearch[]) || [] };
+}
+
+/** Deletes one alert, or every alert for the link's email address when no id is given. */
+export async function deleteSavedSearch(token: string, id?: string): Promise<boolean> {
+    const link = await verifyAlertsLink(token);
+    if (!link) return false;
+    if (id !== undefined && !idSchema.safeParse(id).success) return false;
+
+    let query = supabaseAdmin.from("saved_searches").delete().eq("email", link.email);
+    if (id) query = query.eq("id", id);
+
+    const { error } = await query;
+    if (error) {
+        console.error("Error deleting saved search:", error);
+        return false;
+    }
+
+    return true;
+}
+
+export async function getAnalytics(): Promise<{
+    totalItems: number;
+    lostItems: number;
+    foundItems: number;
+    returnedItems: number;
+}> {
+    const { data } = await supabaseAdmin.from("items").select("type, status").is("deleted_at", null);
+
+    const items = (data as Pick<PublicItem, "type" | "status">[]) || [];
+
+    return {
+        totalItems: items.length,
+        lostItems: items.filter((i) => i.type === "lost").length,
+        foundItems: items.filter((i) => i.type === "found").length,
+        returnedItems: items.filter((i) => i.status === "returned").length,
+    };
+}
@@ -0,0 +1,91 @@
+import { createHmac } from "crypto";
+import { headers } from "next/headers";
+import { supabaseAdmin } from "./supabase-server";
+import { getSessionSecret } from "./session";
+
+export interface RateLimit {
+    limit: number;
+    windowMinutes: number;
+}
+
+export const RATE_LIMITS = {
+    reportPerIp: { limit: 5, windowMinutes: 60 },
+    reportPerEmail: { limit: 3, windowMinutes: 60 },
+    claimPerIp: { limit: 10, windowMinutes: 60 },
+    claimPerEmail: { limit: 5, windowMinutes: 60 },
+    alertPerIp: { limit: 10, windowMinutes: 60 },
+    alertPerEmail: { limit: 3, windowMinutes: 60 },
+    // Failed staff sign-ins before the username or address has to wait
+    loginPerUsername: { limit: 5, windowMinutes: 15 },
+    loginPerIp: { limit: 20, windowMinutes: 15 },
+    // Claims scoring below WEAK_CLAIM_SCORE on the same item before the claimant has to wait
+    weakClaims: { limit: 3, windowMinutes: 24 * 60 },
+} satisfies Record<string, RateLimit>;
+
+// Same threshold as the "Weak" badge moderators see (src/components/admin/MatchScoreBadge.tsx)
+export const WEAK_CLAIM_SCORE = 40;
+
+const LONGEST_WINDOW_MINUTES = Math.max(...Object.values(RATE_LIMITS).map((rule) => rule.windowMinutes));
+
+// Proxies in front of the app that append to X-Forwarded-For (1 on most hosts). Anything before
+// their entries was sent by the client and could be made up.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+
+/** The visitor's address as recorded by the outermost trusted proxy. */
+export function getClientIp(): string {
+    const forwarded = (headers().get("x-forwarded-for") ?? "")
+        .split(",")
+        .map((hop) => hop.trim())
+        .filter(Boolean);
+    return forwarded[Math.max(0, forwarded.length - TRUSTED_PROXY_HOPS)] || headers().get("x-real-ip") || "unknown";
+}
+
+// Keys are hashed so the table never holds a raw IP or email address
+function hashKey(key: string): string {
+    return createHmac("sha256", getSessionSecret()).update(key.trim().toLowerCase()).digest("hex");
+}
+
+function windowStart(rule: RateLimit): string {
+    return new Date(Date.now() - rule.windowMinutes * 60 * 1000).toISOString();
+}
+
+/** True when `key` already has `rule.limit` hits in `bucket` within the rule's window. */
+export async function isRateLimited(bucket: string, key: string, rule: RateLimit): Promise<boolean> {
+    const { count, error } = await supabaseAdmin
+        .from("rate_limit_events")
+        .select("id", { count: "exact", head: true })
+        .eq("bucket", bucket)
+        .eq("key_hash", hashKey(key))
+        .gte("created_at", windowStart(rule));
+
+    // Fail open: a database hiccup should not stop students from reporting items
+    if (error) {
+        console.error("Error checking rate limit:", error);
+        return false;
+    }
+
+    return (count ?? 0) >= rule.limit;
+}
+
+export async function recordHit(bucket: string, keys: string[]): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from("rate_limit_events")
+        .insert(keys.map((key) => ({ bucket, key_hash: hashKey(key) })));
+
+    if (error) console.error("Error recording rate limit hit:", error);
+}
+
+/** Deletes hits older than the longest window; they can no longer affect any limit. */
+export async function pruneRateLimitEvents(): Promise<number> {
+    const { count, error } = await supabaseAdmin
+        .from("rate_limit_events")
+        .delete({ count: "exact" })
+        .lt("created_at", windowStart({ limit: 0, windowMinutes: LONGEST_WINDOW_MINUTES }));
+
+    if (error) {
+        console.error("Error pruning rate limit events:", error);
+        return 0;
+    }
+
+    return count ?? 0;
+}
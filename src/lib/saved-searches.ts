@@ -0,0 +1,67 @@
+import { supabaseAdmin } from "./supabase-server";
+import { sendNotification } from "./notifications";
+import { createAlertsLink } from "./manage";
+import { describeSearch } from "./browse-filters";
+import { getTaxonomy } from "./actions";
+import { Item, SavedSearch } from "./types";
+
+// Saved searches that were never confirmed are removed after a week by /api/cron/purge-trash
+const UNCONFIRMED_RETENTION_DAYS = 7;
+
+/** Emails everyone whose confirmed saved search matches a newly listed item, once per item. */
+export async function notifySavedSearches(item: Pick<Item, "id" | "title">): Promise<void> {
+    const { data, error } = await supabaseAdmin.rpc("saved_searches_matching", { target: item.id });
+
+    if (error) {
+        console.error("Error matching saved searches:", error);
+        return;
+    }
+
+    const searches = (data as SavedSearch[]) || [];
+    if (searches.length === 0) return;
+
+    // Record the alerts before sending, so a retry or a second approval cannot send them twice
+    const { error: insertError } = await supabaseAdmin
+        .from("saved_search_alerts")
+        .upsert(
+            searches.map((search) => ({ saved_search_id: search.id, item_id: item.id })),
+            { onConflict: "saved_search_id,item_id", ignoreDuplicates: true }
+        );
+
+    if (insertError) {
+        console.error("Error recording saved search alerts:", insertError);
+        return;
+    }
+
+    const { categories } = await getTaxonomy();
+    await Promise.all(
+        searches.map(async (search) => {
+            const alertsUrl = await createAlertsLink(search.email);
+            await sendNotification({
+                type: "saved_search_match",
+                to: search.email,
+                summary: describeSearch(search, categories),
+                itemId: item.id,
+                itemTitle: item.title,
+                alertsUrl,
+                unsubscribeUrl: `${alertsUrl}?unsubscribe=${search.id}`,
+            });
+        })
+    );
+}
+
+export async function pruneUnconfirmedSearches(): Promise<number> {
+    const cutoff = new Date(Date.now() - UNCONFIRMED_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { count, error } = await supabaseAdmin
+        .from("saved_searches")
+        .delete({ count: "exact" })
+        .is("confirmed_at", null)
+        .lt("created_at", cutoff);
+
+    if (error) {
+        console.error("Error pruning unconfirmed saved searches:", error);
+        return 0;
+    }
+
+    return count ?? 0;
+}
@@ -0,0 +1,103 @@
+// Signed tokens built on Web Crypto so they can be verified from middleware (Edge runtime)
+// as well as from route handlers and server actions. Every token names its purpose and is
+// only accepted for that purpose, since they all share one signing key.
+
+export const SESSION_COOKIE = "lf_admin_session";
+export const SESSION_MAX_AGE = 60 * 60 * 8; // 8 hours, in seconds
+
+export type TokenPurpose = "session" | "manage" | "track" | "alerts" | "pickup";
+
+interface TokenPayload {
+    purpose: TokenPurpose;
+    exp: number;
+}
+
+export interface SessionPayload extends TokenPayload {
+    sub: string;
+    username: string;
+    purpose: "session";
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Also keys the server-side hashes that need no separate secret (pickup codes, rate-limit keys)
+export function getSessionSecret(): string {
+    const secret = process.env.SESSION_SECRET;
+    if (!secret) {
+        throw new Error("SESSION_SECRET is not configured");
+    }
+    return secret;
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        "raw",
+        encoder.encode(getSessionSecret()),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"]
+    );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export async function signToken<T extends TokenPayload>(payload: T): Promise<string> {
+    const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+    const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(body));
+    return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifyToken<T extends TokenPayload>(
+    token: string | undefined,
+    purpose: T["purpose"]
+): Promise<T | null> {
+    if (!token) return null;
+
+    const [body, signature] = token.split(".");
+    if (!body || !signature) return null;
+
+    try {
+        const valid = await crypto.subtle.verify(
+            "HMAC",
+            await getSigningKey(),
+            fromBase64Url(signature),
+            encoder.encode(body)
+        );
+        if (!valid) return null;
+
+        const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as T;
+        if (payload.purpose !== purpose) return null;
+        if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) return null;
+
+        return payload;
+    } catch (error) {
+        console.error("Error verifying token:", error);
+        return null;
+    }
+}
+
+export async function createSessionToken(staff: { id: string; username: string }): Promise<string> {
+    return signToken<SessionPayload>({
+        sub: staff.id,
+        username: staff.username,
+        purpose: "session",
+        exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+    });
+}
+
+export async function verifySession(token: string | undefined): Promise<SessionPayload | null> {
+    return verifyToken<SessionPayload>(token, "session");
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { CategoryEntry, ItemCategory, Taxonomy } from "./types";
+
+// Categories and locations are rows in item_categories and item_locations, edited by admins
+// from the Settings tab (see the taxonomy actions in src/lib/admin-actions.ts) and read with
+// getTaxonomy() in src/lib/actions.ts. Retired entries are hidden from the report wizard and
+// filters, but items and saved searches that already use them keep working.
+
+export const EMPTY_TAXONOMY: Taxonomy = { categories: [], locations: [] };
+
+type TaxonomyFields = { category?: ItemCategory | null; location?: string | null };
+
+export function activeCategories(taxonomy: Taxonomy): CategoryEntry[] {
+    return taxonomy.categories.filter((category) => !category.retired_at);
+}
+
+export function activeLocations(taxonomy: Taxonomy): string[] {
+    return taxonomy.locations.filter((location) => !location.retired_at).map((location) => location.name);
+}
+
+/** The category's label, or its raw value if it is not in the list (yet). */
+export function categoryLabel(categories: CategoryEntry[], value: ItemCategory): string {
+    return categories.find((category) => category.value === value)?.label ?? value;
+}
+
+/**
+ * Adds a check that the category and location are still offered. `keep` holds the values a
+ * report already had, so editing an old report does not force a new choice when its category
+ * or location has since been retired.
+ */
+export function refineTaxonomy<T extends TaxonomyFields>(
+    schema: z.ZodType<T>,
+    taxonomy: Taxonomy,
+    keep: TaxonomyFields = {}
+): z.ZodType<T> {
+    const categories = activeCategories(taxonomy).map((category) => category.value);
+    const locations = activeLocations(taxonomy);
+
+    return schema.superRefine((data, ctx) => {
+        if (data.category && data.category !== keep.category && !categories.includes(data.category)) {
+            ctx.addIssue({ code: "custom", message: "Please select a category", path: ["category"] });
+        }
+        if (data.location && data.location !== keep.location && !locations.includes(data.location)) {
+            ctx.addIssue({ code: "custom", message: "Please select a location", path: ["location"] });
+        }
+    });
+}
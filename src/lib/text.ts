@@ -0,0 +1,46 @@
+// Small text-similarity helpers shared by answer scoring and the lost/found matcher.
+
+const STOP_WORDS = new Set([
+    "a", "an", "and", "are", "at", "be", "by", "for", "from", "has", "have", "in", "is",
+    "it", "its", "my", "near", "of", "on", "one", "or", "that", "the", "there", "this",
+    "to", "with",
+]);
+
+export function normalizeText(text: string): string {
+    return text
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+}
+
+export function tokenize(text: string): string[] {
+    return normalizeText(text)
+        .split(" ")
+        .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+        .map((word) => (word.length > 3 && word.endsWith("s") ? word.slice(0, -1) : word));
+}
+
+export function trigrams(tokens: string[]): string[] {
+    const grams = new Set<string>();
+    tokens.forEach((token) => {
+        const padded = ` ${token} `;
+        for (let i = 0; i < padded.length - 2; i++) {
+            grams.add(padded.slice(i, i + 3));
+        }
+    });
+    return Array.from(grams);
+}
+
+/** Sørensen–Dice coefficient of two sets, from 0 (disjoint) to 1 (identical). */
+export function dice(a: string[], b: string[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+    const setA = new Set(a);
+    const setB = new Set(b);
+    let shared = 0;
+    setA.forEach((value) => {
+        if (setB.has(value)) shared++;
+    });
+    return (2 * shared) / (setA.size + setB.size);
+}
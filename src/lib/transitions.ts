@@ -0,0 +1,108 @@
+import { supabaseAdmin } from "./supabase-server";
+import { recordAudit } from "./audit";
+import { canTransition } from "./lifecycle";
+import { Item, ItemStatus, StaffUser } from "./types";
+
+type TransitionedItem = Pick<Item, "id" | "title" | "contact_email" | "status">;
+
+/**
+ * Moves an item to a new status if the lifecycle table allows it, and records the change.
+ * Pass a null actor for automatic moves (e.g. a claim arriving), plus the reporter's email as
+ * actorName when they made the change from their management link. Manual status changes pass
+ * canChangeStatusManually as allowed. Returns the updated item, or null when the move is not
+ * allowed or the item changed underneath us.
+ */
+export async function transitionItem(
+    id: string,
+    to: ItemStatus,
+    actor: StaffUser | null,
+    reason?: string,
+    actorName?: string,
+    allowed: (from: ItemStatus, to: ItemStatus) => boolean = canTransition
+): Promise<TransitionedItem | null> {
+    const { data: current, error: loadError } = await supabaseAdmin
+        .from("items")
+        .select("status")
+        .eq("id", id)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+    if (loadError || !current) {
+        if (loadError) console.error("Error loading item status:", loadError);
+        return null;
+    }
+
+    const from = current.status as ItemStatus;
+    if (!allowed(from, to)) {
+        console.error(`Item status transition not allowed: ${from} → ${to}`);
+        return null;
+    }
+
+    // Matching on the old status makes two concurrent transitions unable to both succeed
+    const { data, error } = await supabaseAdmin
+        .from("items")
+        .update({ status: to })
+        .eq("id", id)
+        .eq("status", from)
+        .select("id, title, contact_email, status")
+        .maybeSingle();
+
+    if (error || !data) {
+        if (error) console.error("Error updating item status:", error);
+        return null;
+    }
+
+    await recordAudit({
+        actor,
+        actorType: actorName ? "public" : "system",
+        actorName,
+        action: "item.status_changed",
+        entityType: "item",
+        entityId: data.id,
+        item: data,
+        before: { status: from },
+        after: { status: to },
+        reason,
+    });
+
+    return data as TransitionedItem;
+}
+
+/**
+ * Puts an item back on the public list once no claim is holding it: a claim_pending item with
+ * no pending claims left, or an awaiting_pickup item whose approved claim fell through (an
+ * item with other claims still waiting goes back to claim_pending instead).
+ */
+export async function reopenItemIfUnclaimed(
+    item: Pick<Item, "id" | "status">,
+    actor: StaffUser | null,
+    actorName?: string
+): Promise<void> {
+    if (item.status !== "claim_pending" && item.status !== "awaiting_pickup") return;
+
+    const { data, error } = await supabaseAdmin
+        .from("claims")
+        .select("status")
+        .eq("item_id", item.id)
+        .in("status", ["pending", "approved"])
+        .is("released_at", null)
+        .is("deleted_at", null);
+
+    if (error) {
+        console.error("Error loading open claims:", error);
+        return;
+    }
+
+    const open = (data || []).map((claim) => claim.status);
+    if (open.includes("approved")) return;
+
+    if (item.status === "claim_pending") {
+        if (open.length === 0) await transitionItem(item.id, "listed", actor, "No open claims left", actorName);
+        return;
+    }
+
+    const listed = await transitionItem(item.id, "listed", actor, "No approved claim left", actorName);
+    if (listed && open.length > 0) {
+        await transitionItem(item.id, "claim_pending", actor, "Claims still waiting for review", actorName);
+    }
+}
@@ -0,0 +1,149 @@
+import { supabaseAdmin } from "./supabase-server";
+import { recordAudit } from "./audit";
+import { removeProofImages } from "./proofs";
+import { reopenItemIfUnclaimed } from "./transitions";
+import { ItemStatus, StaffUser } from "./types";
+
+// Deleted items and claims are only flagged with deleted_at at first. They stay restorable
+// from the dashboard's Trash tab until the retention window passes, then purgeExpiredTrash()
+// removes them for good.
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** How many days trashed rows are kept. Configured with TRASH_RETENTION_DAYS. */
+export function trashRetentionDays(): number {
+    const days = Number(process.env.TRASH_RETENTION_DAYS);
+    return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// Public URLs look like .../storage/v1/object/public/item-images/<file name>
+function storagePath(imageUrl: string): string | null {
+    const marker = "/item-images/";
+    const index = imageUrl.indexOf(marker);
+    return index === -1 ? null : decodeURIComponent(imageUrl.substring(index + marker.length));
+}
+
+/** Deletes an uploaded photo from storage. Failures are logged; the photo is just orphaned. */
+export async function removeItemImage(imageUrl: string): Promise<void> {
+    const path = storagePath(imageUrl);
+    if (!path) return;
+
+    const { error } = await supabaseAdmin.storage.from("item-images").remove([path]);
+    if (error) console.error("Error removing item image:", error);
+}
+
+/**
+ * Permanently deletes a trashed item, its claims and matches (via on delete cascade) and its
+ * uploaded photos. Items that are not in the trash are left alone.
+ */
+export async function purgeItem(id: string, actor: StaffUser | null, reason?: string): Promise<boolean> {
+    const { data: item, error: loadError } = await supabaseAdmin
+        .from("items")
+        .select("id, title, type, category, status, image_url, deleted_at")
+        .eq("id", id)
+        .not("deleted_at", "is", null)
+        .maybeSingle();
+
+    if (loadError || !item) {
+        if (loadError) console.error("Error loading trashed item:", loadError);
+        return false;
+    }
+
+    // Proof rows go with the claims through the cascade, so clear out their photos first
+    const { data: claims } = await supabaseAdmin.from("claims").select("id").eq("item_id", id);
+    await removeProofImages((claims || []).map((claim) => claim.id));
+
+    const { error } = await supabaseAdmin.from("items").delete().eq("id", id);
+
+    if (error) {
+        console.error("Error purging item:", error);
+        return false;
+    }
+
+    if (item.image_url) await removeItemImage(item.image_url);
+
+    await recordAudit({
+        actor,
+        actorType: "system",
+        action: "item.purged",
+        entityType: "item",
+        entityId: item.id,
+        item,
+        before: { status: item.status, type: item.type, category: item.category, deleted_at: item.deleted_at },
+        reason,
+    });
+
+    return true;
+}
+
+/** Permanently deletes a trashed claim, and reopens its item if nothing else holds it. */
+export async function purgeClaim(id: string, actor: StaffUser | null, reason?: string): Promise<boolean> {
+    const { data: claim, error: loadError } = await supabaseAdmin
+        .from("claims")
+        .select("id, claimant_name, status, deleted_at, item:items(id, title, status)")
+        .eq("id", id)
+        .not("deleted_at", "is", null)
+        .maybeSingle();
+
+    if (loadError || !claim) {
+        if (loadError) console.error("Error loading trashed claim:", loadError);
+        return false;
+    }
+
+    const item = claim.item as unknown as { id: string; title: string; status: ItemStatus } | null;
+
+    await removeProofImages([id]);
+
+    const { error } = await supabaseAdmin.from("claims").delete().eq("id", id);
+
+    if (error) {
+        console.error("Error purging claim:", error);
+        return false;
+    }
+
+    await recordAudit({
+        actor,
+        actorType: "system",
+        action: "claim.purged",
+        entityType: "claim",
+        entityId: claim.id,
+        item,
+        before: { status: claim.status, claimant: claim.claimant_name, deleted_at: claim.deleted_at },
+        reason,
+    });
+
+    // Usually done when the claim was trashed; this covers claims trashed before that
+    if (item) await reopenItemIfUnclaimed(item, actor);
+
+    return true;
+}
+
+/** Purges everything that has been in the trash longer than the retention window. */
+export async function purgeExpiredTrash(): Promise<{ items: number; claims: number }> {
+    const days = trashRetentionDays();
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const reason = `In the trash for more than ${days} days`;
+
+    const [itemsRes, claimsRes] = await Promise.all([
+        supabaseAdmin.from("items").select("id").lt("deleted_at", cutoff),
+        supabaseAdmin.from("claims").select("id").lt("deleted_at", cutoff),
+    ]);
+
+    if (itemsRes.error || claimsRes.error) {
+        console.error("Error loading expired trash:", itemsRes.error ?? claimsRes.error);
+        return { items: 0, claims: 0 };
+    }
+
+    let items = 0;
+    for (const { id } of itemsRes.data || []) {
+        if (await purgeItem(id, null, reason)) items++;
+    }
+
+    // Claims of an item purged above are already gone through the cascade
+    let claims = 0;
+    for (const { id } of claimsRes.data || []) {
+        if (await purgeClaim(id, null, reason)) claims++;
+    }
+
+    return { items, claims };
+}
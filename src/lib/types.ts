@@ -1,75 +1,502 @@
 import { z } from "zod";
 
-export interface Item {
+// What any visitor may see. Never add security_answer or contact_email here.
+export interface PublicItem {
   id: string;
   title: string;
   description: string;
   category: ItemCategory;
   type: ItemType;
   location: string;
+  // Spot picked on the campus map (src/lib/campus-map.ts), as fractions of the floor plan; null when not picked
+  map_floor: string | null;
+  map_x: number | null;
+  map_y: number | null;
+  // Category-specific details such as brand or size (src/lib/attributes.ts), by field key
+  attributes: ItemAttributes;
   date_occurred: string;
   time_occurred: string;
-  contact_email: string;
+  contact_hint: string;
   image_url: string | null;
   status: ItemStatus;
-  security_answer: string;
   created_at: string;
 }
 
+// Full row, only loaded for authenticated staff.
+export interface Item extends PublicItem {
+  contact_email: string;
+  // Details only staff may see, such as serial numbers
+  private_attributes: ItemAttributes;
+  security_answer_fingerprint: AnswerFingerprint | null;
+  // set while the item is in the trash; it is purged once the retention window passes
+  deleted_at: string | null;
+  // who physically holds a found item and where it is kept; null custodian = still with the finder
+  custodian_id: string | null;
+  storage_location: string | null;
+  // last message a moderator sent the reporter when rejecting or asking for changes
+  moderation_note: string | null;
+}
+
+// Keyed hashes of a normalized security answer (see src/lib/answers.ts).
+export interface AnswerFingerprint {
+  hash: string;
+  tokens: string[];
+  trigrams: string[];
+}
+
+export const PUBLIC_ITEM_COLUMNS =
+  "id, title, description, category, type, location, map_floor, map_x, map_y, attributes, date_occurred, time_occurred, contact_hint, image_url, status, created_at";
+
+// Where the next /browse page starts: the ordering key of the last item already shown
+export interface ItemCursor {
+  rank: number;
+  date_occurred: string;
+  created_at: string;
+  id: string;
+}
+
+// One page of search results; total counts every match, not just this page
+export interface ItemPage {
+  items: PublicItem[];
+  total: number;
+  nextCursor: ItemCursor | null;
+}
+
 export interface Claim {
   id: string;
   item_id: string;
   claimant_name: string;
   claimant_email: string;
-  security_answer: string;
+  security_answer_fingerprint: AnswerFingerprint;
+  match_score: number | null;
+  // free-text case for ownership written with the claim
+  explanation: string | null;
   status: ClaimStatus;
+  deleted_at: string | null;
+  // pickup of an approved claim (see src/lib/pickup.ts); the code itself is only stored hashed
+  pickup_slot: string | null;
+  pickup_attempts: number;
+  released_at: string | null;
+  released_by: string | null;
+  released_by_name: string | null;
+  // shown to the claimant on their tracking page and in the decision email
+  staff_message: string | null;
   created_at: string;
   item?: Item;
+  // number of attached proofs, as returned by getAllClaims
+  proofs?: { count: number }[];
+}
+
+// Extra evidence a claimant adds after submitting. Photos live in the private claim-proofs
+// bucket; image_url is a short-lived signed URL filled in when the proof is loaded.
+export interface ClaimProof {
+  id: string;
+  claim_id: string;
+  // photos attached when the claim is submitted have no note of their own
+  note: string | null;
+  image_path: string | null;
+  image_url?: string | null;
+  created_at: string;
+}
+
+// What the claimant sees on their private /track/[token] page
+export interface ClaimTracking {
+  itemId: string;
+  itemTitle: string;
+  claimantName: string;
+  status: ClaimStatus;
+  staffMessage: string | null;
+  createdAt: string;
+  releasedAt: string | null;
+  // only set while an approved claim is waiting to be collected
+  pickup: { location: string; slot: string | null; pickupUrl: string } | null;
+  proofs: ClaimProof[];
+  canWithdraw: boolean;
+  canAddProof: boolean;
+}
+
+export interface PickupSlot {
+  start: string;
+  available: boolean;
+}
+
+// What the claimant sees on their /pickup/[token] page
+export interface PickupDetails {
+  itemTitle: string;
+  claimantName: string;
+  pickupSlot: string | null;
+  releasedAt: string | null;
+  location: string;
+  timeZone: string;
+  slots: PickupSlot[];
+}
+
+// What a reporter sees on their private /manage/[token] page
+export type ManagedReport = Pick<
+  Item,
+  | "id"
+  | "title"
+  | "description"
+  | "category"
+  | "type"
+  | "location"
+  | "map_floor"
+  | "map_x"
+  | "map_y"
+  | "attributes"
+  | "private_attributes"
+  | "date_occurred"
+  | "time_occurred"
+  | "image_url"
+  | "status"
+  | "contact_email"
+  | "moderation_note"
+  | "created_at"
+>;
+
+// Something the automated pre-screen spotted in a report's title or description (see src/lib/moderation.ts)
+export interface ModerationFlag {
+  kind: ModerationFlagKind;
+  field: "title" | "description";
+  match: string;
+}
+
+// A pending report as shown in the moderation queue
+export interface ModerationQueueItem extends Item {
+  flags: ModerationFlag[];
+}
+
+// A visitor's saved /browse query; they are emailed when a newly listed item matches it
+export interface SavedSearch {
+  id: string;
+  email: string;
+  search: string | null;
+  type: ItemType | null;
+  category: ItemCategory | null;
+  location: string | null;
+  date_from: string | null;
+  date_to: string | null;
+  // null until the visitor opens the link in the confirmation email
+  confirmed_at: string | null;
+  created_at: string;
+}
+
+export type SavedSearchCriteria = Pick<SavedSearch, "search" | "type" | "category" | "location" | "date_from" | "date_to">;
+
+// What a visitor sees on their private /alerts/[token] page
+export interface SavedSearchList {
+  email: string;
+  searches: SavedSearch[];
+}
+
+export type ReleaseResult = "released" | "invalid_code" | "locked" | "error";
+
+// Why a public report or claim was turned away; each one gets its own message in the form
+export type SubmissionError = "invalid" | "duplicate" | "rate_limited" | "cooldown" | "challenge_failed" | "error";
+export type SubmissionResult<T> = ({ ok: true } & T) | { ok: false; error: SubmissionError };
+
+// Candidate pairing of a lost report with a found report, produced by src/lib/matching.ts
+export interface ItemMatch {
+  id: string;
+  lost_item_id: string;
+  found_item_id: string;
+  score: number;
+  breakdown: MatchBreakdown;
+  status: MatchStatus;
+  created_at: string;
+  lost_item?: Item;
+  found_item?: Item;
+}
+
+export interface MatchBreakdown {
+  category: number;
+  location: number;
+  date: number;
+  text: number;
+  // Missing on matches scored before reports had category details
+  attributes?: number;
+}
+
+export interface AuditEvent {
+  id: string;
+  actor_type: AuditActorType;
+  actor_id: string | null;
+  actor_name: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  item_id: string | null;
+  item_title: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason: string | null;
+  created_at: string;
+}
+
+// One hand-off in a found item's chain of custody. Names are copied so history survives staff changes.
+export interface CustodyEvent {
+  id: string;
+  item_id: string;
+  custodian_id: string | null;
+  custodian_name: string | null;
+  storage_location: string | null;
+  note: string | null;
+  recorded_by: string | null;
+  recorded_by_name: string;
+  created_at: string;
+}
+
+// Everything currently in the trash, plus how long it is kept before being purged.
+export interface TrashContents {
+  items: Item[];
+  claims: Claim[];
+  retentionDays: number;
+}
+
+// Rows of item_categories and item_locations, managed from the admin Settings tab. Retired
+// entries are no longer offered but still label the items that use them.
+export interface CategoryEntry {
+  id: string;
+  value: ItemCategory;
+  label: string;
+  sort_order: number;
+  retired_at: string | null;
 }
 
-export type ItemCategory = "electronics" | "clothing" | "books" | "accessories" | "sports" | "other";
+export interface LocationEntry {
+  id: string;
+  name: string;
+  sort_order: number;
+  retired_at: string | null;
+  // Key of the location's zone on the campus map (see src/lib/campus-map.ts), if it has one
+  map_zone: string | null;
+}
+
+export interface Taxonomy {
+  categories: CategoryEntry[];
+  locations: LocationEntry[];
+}
+
+export type TaxonomyKind = "category" | "location";
+
+export interface StaffUser {
+  id: string;
+  username: string;
+  display_name: string;
+  role: StaffRole;
+}
+
+// The value of an item_categories row (e.g. "electronics"); the list lives in the database
+export type ItemCategory = string;
+export type ItemAttributes = Record<string, string>;
 export type ItemType = "lost" | "found";
-export type ItemStatus = "pending" | "approved" | "returned";
-export type ClaimStatus = "pending" | "approved" | "denied";
-
-export const CATEGORIES: { value: ItemCategory; label: string }[] = [
-  { value: "electronics", label: "Electronics" },
-  { value: "clothing", label: "Clothing" },
-  { value: "books", label: "Books & Notebooks" },
-  { value: "accessories", label: "Accessories" },
-  { value: "sports", label: "Sports Equipment" },
-  { value: "other", label: "Other" },
+// Orderings for /browse; "relevance" is newest first when there is no search
+export type BrowseSort = "relevance" | "newest" | "oldest" | "occurred";
+// Allowed moves between statuses live in src/lib/lifecycle.ts
+export type ItemStatus =
+  | "pending"
+  | "changes_requested"
+  | "rejected"
+  | "listed"
+  | "claim_pending"
+  | "awaiting_pickup"
+  | "returned"
+  | "donated"
+  | "discarded"
+  | "withdrawn";
+export type ClaimStatus = "pending" | "approved" | "denied" | "superseded" | "withdrawn" | "closed";
+export type MatchStatus = "open" | "dismissed" | "confirmed";
+export type ModerationFlagKind = "profanity" | "phone" | "email" | "name";
+export type ModerationReason =
+  | "duplicate"
+  | "not_school_item"
+  | "inappropriate"
+  | "personal_info"
+  | "needs_detail"
+  | "unclear_photo"
+  | "other";
+export type AuditActorType = "staff" | "public" | "system";
+export type AuditEntityType = "item" | "claim" | "match" | "session" | "category" | "location";
+export type AuditAction =
+  | "item.created"
+  | "item.edited"
+  | "item.status_changed"
+  | "item.deleted"
+  | "item.restored"
+  | "item.purged"
+  | "item.custody_changed"
+  | "claim.created"
+  | "claim.decided"
+  | "claim.superseded"
+  | "claim.withdrawn"
+  | "claim.closed"
+  | "claim.proof_added"
+  | "claim.deleted"
+  | "claim.restored"
+  | "claim.purged"
+  | "claim.pickup_scheduled"
+  | "claim.pickup_code_reissued"
+  | "claim.released"
+  | "claim.release_failed"
+  | "match.decided"
+  | "taxonomy.added"
+  | "taxonomy.renamed"
+  | "taxonomy.reordered"
+  | "taxonomy.retired"
+  | "taxonomy.restored"
+  | "auth.login"
+  | "auth.login_failed"
+  | "auth.logout";
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: "item.created", label: "Item reported" },
+  { value: "item.edited", label: "Report edited by reporter" },
+  { value: "item.status_changed", label: "Item status changed" },
+  { value: "item.deleted", label: "Item moved to trash" },
+  { value: "item.restored", label: "Item restored" },
+  { value: "item.purged", label: "Item permanently deleted" },
+  { value: "item.custody_changed", label: "Custody updated" },
+  { value: "claim.created", label: "Claim submitted" },
+  { value: "claim.decided", label: "Claim decided" },
+  { value: "claim.superseded", label: "Claim superseded" },
+  { value: "claim.withdrawn", label: "Claim withdrawn by claimant" },
+  { value: "claim.closed", label: "Claim closed (report withdrawn)" },
+  { value: "claim.proof_added", label: "Claim proof added" },
+  { value: "claim.deleted", label: "Claim moved to trash" },
+  { value: "claim.restored", label: "Claim restored" },
+  { value: "claim.purged", label: "Claim permanently deleted" },
+  { value: "claim.pickup_scheduled", label: "Pickup scheduled" },
+  { value: "claim.pickup_code_reissued", label: "Pickup code reissued" },
+  { value: "claim.released", label: "Item released to claimant" },
+  { value: "claim.release_failed", label: "Wrong pickup code" },
+  { value: "match.decided", label: "Match reviewed" },
+  { value: "taxonomy.added", label: "Category/location added" },
+  { value: "taxonomy.renamed", label: "Category/location renamed" },
+  { value: "taxonomy.reordered", label: "Category/location moved" },
+  { value: "taxonomy.retired", label: "Category/location retired" },
+  { value: "taxonomy.restored", label: "Category/location restored" },
+  { value: "auth.login", label: "Signed in" },
+  { value: "auth.login_failed", label: "Failed sign-in" },
+  { value: "auth.logout", label: "Signed out" },
+];
+
+export type StaffRole = "viewer" | "moderator" | "custodian" | "super_admin";
+
+export const STAFF_ROLES: { value: StaffRole; label: string }[] = [
+  { value: "viewer", label: "Viewer" },
+  { value: "moderator", label: "Moderator" },
+  { value: "custodian", label: "Custodian" },
+  { value: "super_admin", label: "Super Admin" },
+];
+
+export const ITEM_STATUSES: { value: ItemStatus; label: string }[] = [
+  { value: "pending", label: "Pending Review" },
+  { value: "changes_requested", label: "Changes Requested" },
+  { value: "rejected", label: "Rejected" },
+  { value: "listed", label: "Listed" },
+  { value: "claim_pending", label: "Claim Pending" },
+  { value: "awaiting_pickup", label: "Awaiting Pickup" },
+  { value: "returned", label: "Returned" },
+  { value: "donated", label: "Donated" },
+  { value: "discarded", label: "Discarded" },
+  { value: "withdrawn", label: "Withdrawn" },
+];
+
+export const CLAIM_STATUSES: { value: ClaimStatus; label: string }[] = [
+  { value: "pending", label: "Under Review" },
+  { value: "approved", label: "Approved" },
+  { value: "denied", label: "Not Approved" },
+  { value: "superseded", label: "Superseded" },
+  { value: "withdrawn", label: "Withdrawn" },
+  { value: "closed", label: "Closed" },
 ];
 
-export const LOCATIONS: string[] = [
-  "Main Office",
-  "Cafeteria",
-  "Library",
-  "Gym / Locker Room",
-  "Science Lab",
-  "Computer Lab",
-  "Auditorium",
-  "Hallway - 1st Floor",
-  "Hallway - 2nd Floor",
-  "Hallway - 3rd Floor",
-  "Parking Lot",
-  "Football Field",
-  "Bus Stop",
-  "Other",
+export const MODERATION_FLAGS: { value: ModerationFlagKind; label: string }[] = [
+  { value: "profanity", label: "Profanity" },
+  { value: "phone", label: "Phone number" },
+  { value: "email", label: "Email address" },
+  { value: "name", label: "Full name" },
 ];
 
+// Canned reasons for rejecting a report or asking for changes; `message` is what the reporter is emailed
+export const MODERATION_REASONS: { value: ModerationReason; label: string; message: string }[] = [
+  {
+    value: "duplicate",
+    label: "Duplicate report",
+    message: "This item has already been reported, so we have kept the earlier report instead.",
+  },
+  {
+    value: "not_school_item",
+    label: "Not a lost or found item",
+    message: "This report does not describe an item lost or found at school, so it cannot be listed.",
+  },
+  {
+    value: "inappropriate",
+    label: "Inappropriate language",
+    message: "The report contains language that is not appropriate for a school website.",
+  },
+  {
+    value: "personal_info",
+    label: "Contains personal information",
+    message:
+      "The title or description includes personal information such as a full name or phone number. Please remove it — the security question is the place for details only the owner would know.",
+  },
+  {
+    value: "needs_detail",
+    label: "Needs more detail",
+    message: "The description is too short for the owner to recognize the item. Please add its color, brand or any distinguishing marks.",
+  },
+  {
+    value: "unclear_photo",
+    label: "Photo unclear or unsuitable",
+    message: "The photo does not clearly show the item. Please upload a clearer photo of the item on its own.",
+  },
+  { value: "other", label: "Other", message: "A moderator reviewed your report and could not list it as it is." },
+];
+
+export const BROWSE_SORTS: { value: BrowseSort; label: string }[] = [
+  { value: "relevance", label: "Best match" },
+  { value: "newest", label: "Newest reported" },
+  { value: "oldest", label: "Oldest reported" },
+  { value: "occurred", label: "Date lost/found" },
+];
+
+// Suggestions for the storage field; staff can also type any other shelf or bin.
+export const STORAGE_LOCATIONS: string[] = [
+  "Main Office - Lost & Found Bin",
+  "Main Office - Valuables Drawer",
+  "Gym Cage",
+  "Library Front Desk",
+  "Front Desk Safe",
+];
+
+// serverActions.bodySizeLimit in next.config.mjs must fit MAX_CLAIM_PHOTOS of MAX_IMAGE_SIZE each
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+export const MAX_CLAIM_PHOTOS = 3;
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+// Bot checks on the public report and claim forms (see src/lib/challenge.ts)
+export const HONEYPOT_FIELD = "website";
+export const CHALLENGE_FIELD = "challenge_token";
+export const STUB_CHALLENGE_TOKEN = "stub-challenge-passed";
+
 export const reportStep1Schema = z.object({
   type: z.enum(["lost", "found"], { error: "Please select whether you lost or found this item" }),
-  category: z.enum(["electronics", "clothing", "books", "accessories", "sports", "other"], {
-    error: "Please select a category",
-  }),
+  // Checked against the active categories on the server (see refineTaxonomy in src/lib/taxonomy.ts)
+  category: z.string().min(1, "Please select a category").max(50),
   title: z.string().min(3, "Title must be at least 3 characters").max(100, "Title must be under 100 characters"),
+  // Fields depend on the category; the server checks them with parseAttributes (src/lib/attributes.ts)
+  attributes: z.record(z.string(), z.string().max(100, "Each detail must be under 100 characters")).optional(),
 });
 
 export const reportStep2Schema = z.object({
   date_occurred: z.string().min(1, "Please select a date"),
   time_occurred: z.string().min(1, "Please provide an approximate time"),
   location: z.string().min(1, "Please select a location"),
+  // Optional spot on the campus map; the server checks it against the map before saving
+  map_floor: z.string().max(50).nullish(),
+  map_x: z.number().min(0).max(1).nullish(),
+  map_y: z.number().min(0).max(1).nullish(),
   description: z.string().min(10, "Description must be at least 10 characters").max(500, "Description must be under 500 characters"),
 });
 
@@ -89,10 +516,207 @@ export const fullReportSchema = reportStep1Schema
 
 export type ReportFormData = z.infer<typeof fullReportSchema>;
 
+// What a reporter can change from their management link; the type and contact email stay fixed
+export const reportEditSchema = reportStep1Schema.omit({ type: true }).merge(reportStep2Schema);
+
+export type ReportEditData = z.infer<typeof reportEditSchema>;
+
 export const claimSchema = z.object({
-  claimant_name: z.string().min(2, "Name must be at least 2 characters"),
+  claimant_name: z.string().min(2, "Name must be at least 2 characters").max(100, "Name must be under 100 characters"),
   claimant_email: z.string().email("Please enter a valid email address"),
-  security_answer: z.string().min(1, "Please answer the security question"),
+  security_answer: z.string().min(1, "Please answer the security question").max(200, "Security answer must be under 200 characters"),
+  explanation: z.string().trim().max(1000, "Please keep it under 1000 characters").optional(),
 });
 
 export type ClaimFormData = z.infer<typeof claimSchema>;
+
+export const idSchema = z.string().uuid();
+
+export const claimSubmissionSchema = claimSchema.extend({
+  item_id: idSchema,
+});
+
+export const reasonSchema = z.string().trim().max(500, "Reason must be under 500 characters").optional();
+
+export const itemStatusUpdateSchema = z.object({
+  id: idSchema,
+  status: z.enum([
+    "pending",
+    "changes_requested",
+    "rejected",
+    "listed",
+    "claim_pending",
+    "awaiting_pickup",
+    "returned",
+    "donated",
+    "discarded",
+    "withdrawn",
+  ]),
+  reason: reasonSchema,
+});
+
+export const itemDeletionSchema = z.object({
+  id: idSchema,
+  reason: reasonSchema,
+});
+
+export const custodyUpdateSchema = z.object({
+  item_id: idSchema,
+  custodian_id: idSchema.nullable(),
+  storage_location: z.string().trim().max(100, "Storage location must be under 100 characters").nullable(),
+  note: reasonSchema,
+});
+
+export type CustodyUpdate = z.infer<typeof custodyUpdateSchema>;
+
+export const taxonomyEntrySchema = z.object({
+  kind: z.enum(["category", "location"]),
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(50, "Name must be under 50 characters"),
+});
+
+export type TaxonomyEntryInput = z.infer<typeof taxonomyEntrySchema>;
+
+export const taxonomyRenameSchema = taxonomyEntrySchema.extend({ id: idSchema });
+
+export type TaxonomyRename = z.infer<typeof taxonomyRenameSchema>;
+
+export const taxonomyMoveSchema = z.object({
+  kind: z.enum(["category", "location"]),
+  id: idSchema,
+  direction: z.enum(["up", "down"]),
+});
+
+export type TaxonomyMove = z.infer<typeof taxonomyMoveSchema>;
+
+export const taxonomyRetireSchema = z.object({
+  kind: z.enum(["category", "location"]),
+  id: idSchema,
+  retired: z.boolean(),
+});
+
+export type TaxonomyRetire = z.infer<typeof taxonomyRetireSchema>;
+
+export const pickupScheduleSchema = z.object({
+  token: z.string().min(1),
+  slot: z.string().datetime(),
+});
+
+export const pickupReleaseSchema = z.object({
+  claim_id: idSchema,
+  code: z.string().trim().min(1, "Please enter the pickup code").max(20),
+});
+
+export const reportWithdrawalSchema = z.object({
+  token: z.string().min(1),
+  reason: reasonSchema,
+});
+
+export const claimDeletionSchema = z.object({
+  id: idSchema,
+  reason: reasonSchema,
+});
+
+export const claimDecisionSchema = z.object({
+  id: idSchema,
+  status: z.enum(["approved", "denied"]),
+  reason: reasonSchema,
+  message: z.string().trim().max(500, "Message must be under 500 characters").optional(),
+});
+
+export const moderationDecisionSchema = z
+  .object({
+    id: idSchema,
+    decision: z.enum(["approve", "reject", "request_changes"]),
+    reason: z
+      .enum(["duplicate", "not_school_item", "inappropriate", "personal_info", "needs_detail", "unclear_photo", "other"])
+      .optional(),
+    note: z.string().trim().max(500, "Note must be under 500 characters").optional(),
+  })
+  .refine((data) => data.decision === "approve" || data.reason, {
+    message: "Please choose a reason",
+    path: ["reason"],
+  });
+
+export type ModerationDecision = z.infer<typeof moderationDecisionSchema>;
+
+export const claimWithdrawalSchema = z.object({
+  token: z.string().min(1),
+  reason: reasonSchema,
+});
+
+export const claimProofSchema = z.object({
+  token: z.string().min(1),
+  note: z.string().trim().min(10, "Please explain in at least 10 characters").max(1000, "Please keep it under 1000 characters"),
+});
+
+export const matchDecisionSchema = z.object({
+  id: idSchema,
+  status: z.enum(["dismissed", "confirmed"]),
+  reason: reasonSchema,
+});
+
+export const auditFilterSchema = z.object({
+  actor: z.union([idSchema, z.literal("public")]).optional(),
+  itemId: idSchema.optional(),
+  action: z.enum([
+    "item.created",
+    "item.edited",
+    "item.status_changed",
+    "item.deleted",
+    "item.restored",
+    "item.purged",
+    "item.custody_changed",
+    "claim.created",
+    "claim.decided",
+    "claim.superseded",
+    "claim.withdrawn",
+    "claim.closed",
+    "claim.proof_added",
+    "claim.deleted",
+    "claim.restored",
+    "claim.purged",
+    "claim.pickup_scheduled",
+    "claim.pickup_code_reissued",
+    "claim.released",
+    "claim.release_failed",
+    "match.decided",
+    "taxonomy.added",
+    "taxonomy.renamed",
+    "taxonomy.reordered",
+    "taxonomy.retired",
+    "taxonomy.restored",
+    "auth.login",
+    "auth.login_failed",
+    "auth.logout",
+  ]).optional(),
+});
+
+export type AuditFilters = z.infer<typeof auditFilterSchema>;
+
+export const savedSearchSchema = z
+  .object({
+    email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+    search: z.string().trim().max(100, "Search must be under 100 characters").optional(),
+    type: z.enum(["lost", "found"]).optional(),
+    category: z.string().max(50).optional(),
+    location: z.string().max(100).optional(),
+    date_from: z.string().date().optional(),
+    date_to: z.string().date().optional(),
+  })
+  .refine((data) => data.search || data.category || data.location, {
+    message: "Add a search term, category or location so the alert is not sent for every item",
+    path: ["search"],
+  })
+  .refine((data) => !data.date_from || !data.date_to || data.date_from <= data.date_to, {
+    message: "The start date must be before the end date",
+    path: ["date_to"],
+  });
+
+export type SavedSearchFormData = z.infer<typeof savedSearchSchema>;
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Please enter your username"),
+  password: z.string().min(1, "Please enter your password"),
+});
+
+export type LoginFormData = z.infer<typeof loginSchema>;
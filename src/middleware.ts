@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, verifySession } from "@/lib/session";
+
+const LOGIN_PATH = "/admin/login";
+
+export async function middleware(request: NextRequest) {
+    const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+
+    if (request.nextUrl.pathname === LOGIN_PATH) {
+        return session ? NextResponse.redirect(new URL("/admin", request.url)) : NextResponse.next();
+    }
+
+    if (!session) {
+        if (request.nextUrl.pathname.startsWith("/api/")) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        return NextResponse.redirect(new URL(LOGIN_PATH, request.url));
+    }
+
+    return NextResponse.next();
+}
+
+export const config = {
+    matcher: ["/admin/:path*", "/api/admin/:path*"],
+};
@@ -1,18 +1,113 @@
 create extension if not exists "uuid-ossp";
+create extension if not exists pg_trgm;
+
+create table if not exists staff (
+  id uuid default uuid_generate_v4() primary key,
+  username text not null unique,
+  display_name text not null,
+  role text not null default 'viewer' check (role in ('viewer', 'moderator', 'custodian', 'super_admin')),
+  password_hash text not null,
+  created_at timestamp with time zone default now()
+);
+
+-- Categories and locations offered in the report wizard and /browse, managed from the admin
+-- Settings tab. Entries are retired rather than deleted so older reports keep them; items store
+-- the category's value (which never changes) and the location's name, which follows a rename
+-- through on update cascade.
+create table if not exists item_categories (
+  id uuid default uuid_generate_v4() primary key,
+  value text not null unique,
+  label text not null unique,
+  sort_order integer not null default 0,
+  retired_at timestamp with time zone,
+  created_at timestamp with time zone default now()
+);
+
+create table if not exists item_locations (
+  id uuid default uuid_generate_v4() primary key,
+  name text not null unique,
+  sort_order integer not null default 0,
+  retired_at timestamp with time zone,
+  -- Key of the location's zone on the campus map (CAMPUS_FLOORS in src/lib/campus-map.ts)
+  map_zone text unique,
+  created_at timestamp with time zone default now()
+);
+
+insert into item_categories (value, label, sort_order) values
+  ('electronics', 'Electronics', 1),
+  ('clothing', 'Clothing', 2),
+  ('books', 'Books & Notebooks', 3),
+  ('accessories', 'Accessories', 4),
+  ('sports', 'Sports Equipment', 5),
+  ('other', 'Other', 6)
+on conflict (value) do nothing;
+
+-- Map zones are linked by map_zone, not by name, so a renamed location stays on the map.
+-- Conflicts on either column are skipped so a rerun does not re-add a renamed location.
+insert into item_locations (name, sort_order, map_zone) values
+  ('Main Office', 1, 'main-office'),
+  ('Cafeteria', 2, 'cafeteria'),
+  ('Library', 3, 'library'),
+  ('Gym / Locker Room', 4, 'gym'),
+  ('Science Lab', 5, 'science-lab'),
+  ('Computer Lab', 6, 'computer-lab'),
+  ('Auditorium', 7, 'auditorium'),
+  ('Hallway - 1st Floor', 8, 'hallway-1'),
+  ('Hallway - 2nd Floor', 9, 'hallway-2'),
+  ('Hallway - 3rd Floor', 10, 'hallway-3'),
+  ('Parking Lot', 11, 'parking-lot'),
+  ('Football Field', 12, 'football-field'),
+  ('Bus Stop', 13, 'bus-stop'),
+  ('Other', 14, null)
+on conflict do nothing;
 
 create table if not exists items (
   id uuid default uuid_generate_v4() primary key,
   title text not null,
   description text not null,
-  category text not null check (category in ('electronics', 'clothing', 'books', 'accessories', 'sports', 'other')),
+  category text not null references item_categories(value),
   type text not null check (type in ('lost', 'found')),
-  location text not null,
+  location text not null references item_locations(name) on update cascade,
+  -- spot picked on the campus map (CAMPUS_FLOORS in src/lib/campus-map.ts), as fractions of the floor plan
+  map_floor text,
+  map_x real check (map_x between 0 and 1),
+  map_y real check (map_y between 0 and 1),
+  -- category-specific details by field key (CATEGORY_ATTRIBUTES in src/lib/attributes.ts); the
+  -- private ones, such as serial numbers, are kept apart so the anon key never sees them
+  attributes jsonb not null default '{}',
+  private_attributes jsonb not null default '{}',
   date_occurred date not null,
   time_occurred text not null,
   contact_email text not null,
+  -- obfuscated form of contact_email (e.g. j*****e@school.edu) that is safe to show publicly
+  contact_hint text generated always as (
+    case
+      when length(split_part(contact_email, '@', 1)) <= 2
+        then left(contact_email, 1) || '*@' || split_part(contact_email, '@', 2)
+      else left(contact_email, 1)
+        || repeat('*', length(split_part(contact_email, '@', 1)) - 2)
+        || right(split_part(contact_email, '@', 1), 1)
+        || '@' || split_part(contact_email, '@', 2)
+    end
+  ) stored,
   image_url text,
-  status text not null default 'pending' check (status in ('pending', 'approved', 'returned')),
-  security_answer text not null,
+  -- allowed moves between statuses are enforced by ITEM_TRANSITIONS in src/lib/lifecycle.ts
+  status text not null default 'pending' check (status in (
+    'pending', 'changes_requested', 'rejected', 'listed', 'claim_pending', 'awaiting_pickup', 'returned', 'donated', 'discarded', 'withdrawn'
+  )),
+  -- keyed hashes of the normalized answer; the plaintext is never stored
+  security_answer_fingerprint jsonb,
+  -- set when staff move the item to the trash; purged after TRASH_RETENTION_DAYS
+  deleted_at timestamp with time zone,
+  -- found items only: who holds it (null = still with the finder) and which shelf/bin it is in
+  custodian_id uuid references staff(id) on delete set null,
+  storage_location text,
+  -- last message a moderator sent the reporter with a rejection or change request
+  moderation_note text,
+  -- full-text index of the title (weighted higher) and description, used by search_items()
+  search_vector tsvector generated always as (
+    setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', description), 'B')
+  ) stored,
   created_at timestamp with time zone default now()
 );
 
@@ -21,44 +116,377 @@ create table if not exists claims (
   item_id uuid not null references items(id) on delete cascade,
   claimant_name text not null,
   claimant_email text not null,
-  security_answer text not null,
-  status text not null default 'pending' check (status in ('pending', 'approved', 'denied')),
+  security_answer_fingerprint jsonb not null,
+  -- 0-100 similarity to the item's answer, null when the item has no answer on file
+  match_score smallint check (match_score between 0 and 100),
+  explanation text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'denied', 'superseded', 'withdrawn', 'closed')),
+  -- shown to the claimant on their tracking page and in the decision email
+  staff_message text,
+  deleted_at timestamp with time zone,
+  -- pickup of an approved claim: the one-time code is only stored as a keyed hash and
+  -- cleared once used; released_* record who handed the item over
+  pickup_code_hash text,
+  pickup_attempts smallint not null default 0,
+  pickup_slot timestamp with time zone,
+  released_at timestamp with time zone,
+  released_by uuid references staff(id) on delete set null,
+  released_by_name text,
   created_at timestamp with time zone default now()
 );
 
+create index if not exists claims_pickup_slot_idx on claims (pickup_slot) where released_at is null;
+
+-- At most one approved claim per item waiting to be collected
+create unique index if not exists claims_one_approved_per_item_idx on claims (item_id)
+  where status = 'approved' and released_at is null and deleted_at is null;
+
+-- Evidence attached to a claim: photos sent with the claim, and notes (with an optional photo)
+-- added later from the tracking page. Photos are stored in the private claim-proofs bucket
+-- and only served as signed URLs.
+create table if not exists claim_proofs (
+  id uuid default uuid_generate_v4() primary key,
+  claim_id uuid not null references claims(id) on delete cascade,
+  note text,
+  image_path text,
+  created_at timestamp with time zone default now(),
+  check (note is not null or image_path is not null)
+);
+
+create index if not exists claim_proofs_claim_id_idx on claim_proofs (claim_id);
+
+-- One row per public report/claim attempt, and per weak claim answer, keyed by an HMAC of the
+-- visitor's IP or email. Rows older than a day are cleared by /api/cron/purge-trash.
+create table if not exists rate_limit_events (
+  id uuid default uuid_generate_v4() primary key,
+  bucket text not null,
+  key_hash text not null,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists rate_limit_events_lookup_idx on rate_limit_events (bucket, key_hash, created_at);
+
+-- Saved /browse queries that email the visitor when a newly listed item matches. Alerts only go
+-- out once the address is confirmed through the link in the confirmation email.
+create table if not exists saved_searches (
+  id uuid default uuid_generate_v4() primary key,
+  email text not null,
+  search text,
+  type text check (type in ('lost', 'found')),
+  category text references item_categories(value),
+  location text references item_locations(name) on update cascade,
+  date_from date,
+  date_to date,
+  confirmed_at timestamp with time zone,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists saved_searches_email_idx on saved_searches (email);
+
+-- One row per alert sent, so a report that is edited and approved again is not sent twice
+create table if not exists saved_search_alerts (
+  saved_search_id uuid not null references saved_searches(id) on delete cascade,
+  item_id uuid not null references items(id) on delete cascade,
+  created_at timestamp with time zone default now(),
+  primary key (saved_search_id, item_id)
+);
+
+create index if not exists items_deleted_at_idx on items (deleted_at) where deleted_at is not null;
+create index if not exists items_moderation_queue_idx on items (created_at) where status = 'pending' and deleted_at is null;
+create index if not exists items_search_vector_idx on items using gin (search_vector);
+create index if not exists items_search_trgm_idx on items using gin ((title || ' ' || description) gin_trgm_ops);
+create index if not exists claims_deleted_at_idx on claims (deleted_at) where deleted_at is not null;
+
+create table if not exists item_matches (
+  id uuid default uuid_generate_v4() primary key,
+  lost_item_id uuid not null references items(id) on delete cascade,
+  found_item_id uuid not null references items(id) on delete cascade,
+  score smallint not null check (score between 0 and 100),
+  breakdown jsonb not null,
+  status text not null default 'open' check (status in ('open', 'dismissed', 'confirmed')),
+  created_at timestamp with time zone default now(),
+  unique (lost_item_id, found_item_id)
+);
+
+create table if not exists email_outbox (
+  id uuid default uuid_generate_v4() primary key,
+  to_address text not null,
+  template text not null,
+  subject text not null,
+  -- Blanked once sent or failed: it can hold pickup codes and signed links
+  body text not null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  attempts smallint not null default 0,
+  last_error text,
+  created_at timestamp with time zone default now(),
+  sent_at timestamp with time zone
+);
+
+create index if not exists email_outbox_pending_idx on email_outbox (created_at) where status = 'pending';
+
+-- Append-only history of admin and lifecycle actions. item_id is deliberately not a foreign
+-- key so the trail survives after the item itself is deleted.
+create table if not exists audit_events (
+  id uuid default uuid_generate_v4() primary key,
+  actor_type text not null check (actor_type in ('staff', 'public', 'system')),
+  actor_id uuid,
+  actor_name text not null,
+  action text not null,
+  entity_type text not null check (entity_type in ('item', 'claim', 'match', 'session', 'category', 'location')),
+  entity_id uuid,
+  item_id uuid,
+  item_title text,
+  before jsonb,
+  after jsonb,
+  reason text,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists audit_events_created_at_idx on audit_events (created_at desc);
+create index if not exists audit_events_item_id_idx on audit_events (item_id);
+create index if not exists audit_events_actor_id_idx on audit_events (actor_id);
+
+-- Chain of custody for found items. Names are copied so the history stays readable
+-- after a staff account is removed.
+create table if not exists custody_events (
+  id uuid default uuid_generate_v4() primary key,
+  item_id uuid not null references items(id) on delete cascade,
+  custodian_id uuid references staff(id) on delete set null,
+  custodian_name text,
+  storage_location text,
+  note text,
+  recorded_by uuid references staff(id) on delete set null,
+  recorded_by_name text not null,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists custody_events_item_id_idx on custody_events (item_id, created_at desc);
+
 alter table items enable row level security;
 alter table claims enable row level security;
+alter table item_matches enable row level security;
+alter table email_outbox enable row level security;
+alter table audit_events enable row level security;
+alter table custody_events enable row level security;
+alter table claim_proofs enable row level security;
+alter table rate_limit_events enable row level security;
+alter table saved_searches enable row level security;
+alter table saved_search_alerts enable row level security;
+alter table staff enable row level security;
+alter table item_categories enable row level security;
+alter table item_locations enable row level security;
+
+-- The anon key can only read published items that are not in the trash. Reports and claims are
+-- submitted through server actions (src/lib/public-actions.ts) with the service role, so every
+-- insert, update, delete and admin read is checked on the server first.
+-- Keep the status list in sync with PUBLIC_STATUSES in src/lib/lifecycle.ts.
+create policy "Anyone can view published items" on items
+  for select using (status in ('listed', 'claim_pending', 'awaiting_pickup', 'returned') and deleted_at is null);
 
-create policy "Anyone can view approved items" on items
-  for select using (status = 'approved');
+-- Earlier versions let the anon key insert pending reports and claims directly
+drop policy if exists "Anyone can report items" on items;
+drop policy if exists "Anyone can create claims" on claims;
+revoke insert on items, claims from anon;
 
-create policy "Anyone can create items" on items
-  for insert with check (true);
+-- Retired entries are readable too, so older items still show their category's label
+create policy "Anyone can view categories" on item_categories
+  for select using (true);
 
-create policy "Admin can view all items" on items
+create policy "Anyone can view locations" on item_locations
   for select using (true);
 
-create policy "Admin can update items" on items
-  for update using (true);
+-- RLS filters rows, not columns: hide the answer and raw email from the anon key entirely
+revoke select on items from anon;
+grant select (id, title, description, category, type, location, map_floor, map_x, map_y, attributes, date_occurred, time_occurred, contact_hint, image_url, status, created_at, search_vector)
+  on items to anon;
+
+-- Search and keyset pagination for /browse (getItems in src/lib/actions.ts). Runs as the caller,
+-- so the anon key still only sees published items. Full-text matches are ranked with ts_rank;
+-- when the words match nothing (typos, partial words) it falls back to trigram similarity.
+-- sort_order is relevance (newest first without a search), newest, oldest or occurred
+-- (date_occurred, latest first); the after_* cursor must come from the same sort_order.
+-- item_attributes matches category details case-insensitively, e.g. {"brand": "apple"}.
+-- total_count is the number of matches before the cursor is applied.
+drop function if exists search_items(text, text, text, text[], real, timestamp with time zone, uuid, integer);
+drop function if exists search_items(
+  text, text, text, text[], text[], date, date, text, real, date, timestamp with time zone, uuid, integer
+);
 
-create policy "Admin can delete items" on items
-  for delete using (true);
+create or replace function search_items(
+  search text default null,
+  item_type text default null,
+  item_category text default null,
+  item_statuses text[] default array['listed', 'claim_pending', 'awaiting_pickup'],
+  item_locations text[] default null,
+  occurred_from date default null,
+  occurred_to date default null,
+  item_attributes jsonb default null,
+  sort_order text default 'relevance',
+  after_rank real default null,
+  after_date_occurred date default null,
+  after_created_at timestamp with time zone default null,
+  after_id uuid default null,
+  page_size integer default 24
+)
+returns table (
+  id uuid, title text, description text, category text, type text, location text,
+  map_floor text, map_x real, map_y real, attributes jsonb, date_occurred date,
+  time_occurred text, contact_hint text, image_url text, status text, created_at timestamp with time zone,
+  rank real, total_count bigint
+)
+language plpgsql stable
+set pg_trgm.word_similarity_threshold = 0.3
+as $$
+#variable_conflict use_column
+declare
+  q text := nullif(trim(search), '');
+  tsq tsquery;
+  fuzzy boolean := false;
+begin
+  if q is not null then
+    tsq := websearch_to_tsquery('english', q);
+    fuzzy := not exists (
+      select 1 from items i
+      where i.search_vector @@ tsq
+        and i.status = any(item_statuses)
+        and (item_type is null or i.type = item_type)
+        and (item_category is null or i.category = item_category)
+        and (item_locations is null or i.location = any(item_locations))
+        and (occurred_from is null or i.date_occurred >= occurred_from)
+        and (occurred_to is null or i.date_occurred <= occurred_to)
+        and (item_attributes is null or not exists (
+          select 1 from jsonb_each_text(item_attributes) f
+          where lower(i.attributes ->> f.key) is distinct from lower(f.value)
+        ))
+    );
+  end if;
 
-create policy "Anyone can create claims" on claims
-  for insert with check (true);
+  return query
+  with matches as (
+    select i.id, i.title, i.description, i.category, i.type, i.location, i.map_floor, i.map_x, i.map_y,
+      i.attributes, i.date_occurred, i.time_occurred,
+      i.contact_hint, i.image_url, i.status, i.created_at,
+      (case
+        when q is null then 0
+        when fuzzy then word_similarity(q, i.title || ' ' || i.description)
+        else ts_rank(i.search_vector, tsq)
+      end)::real as rank
+    from items i
+    where i.status = any(item_statuses)
+      and (item_type is null or i.type = item_type)
+      and (item_category is null or i.category = item_category)
+      and (item_locations is null or i.location = any(item_locations))
+      and (occurred_from is null or i.date_occurred >= occurred_from)
+      and (occurred_to is null or i.date_occurred <= occurred_to)
+      and (item_attributes is null or not exists (
+        select 1 from jsonb_each_text(item_attributes) f
+        where lower(i.attributes ->> f.key) is distinct from lower(f.value)
+      ))
+      and (q is null or (fuzzy and q <% (i.title || ' ' || i.description)) or (not fuzzy and i.search_vector @@ tsq))
+  ),
+  counted as (
+    select m.*, count(*) over () as total_count from matches m
+  )
+  select c.* from counted c
+  where after_id is null or (case sort_order
+    when 'newest' then (c.created_at, c.id) < (after_created_at, after_id)
+    when 'oldest' then (c.created_at, c.id) > (after_created_at, after_id)
+    when 'occurred' then (c.date_occurred, c.created_at, c.id) < (after_date_occurred, after_created_at, after_id)
+    else (c.rank, c.created_at, c.id) < (after_rank, after_created_at, after_id)
+  end)
+  order by
+    case when sort_order = 'relevance' then c.rank end desc,
+    case when sort_order = 'occurred' then c.date_occurred end desc,
+    case when sort_order = 'oldest' then c.created_at end asc,
+    case when sort_order = 'oldest' then c.id end asc,
+    c.created_at desc,
+    c.id desc
+  limit page_size;
+end;
+$$;
 
-create policy "Anyone can view claims" on claims
-  for select using (true);
+-- Confirmed saved searches that a listed item matches and have not been alerted about it yet
+-- (notifySavedSearches in src/lib/saved-searches.ts). Uses the same words and typo tolerance as
+-- search_items(), checked against the one item.
+create or replace function saved_searches_matching(target uuid)
+returns setof saved_searches
+language sql stable
+set pg_trgm.word_similarity_threshold = 0.3
+as $$
+  select s.* from saved_searches s
+  join items i on i.id = target
+  where s.confirmed_at is not null
+    and (s.type is null or s.type = i.type)
+    and (s.category is null or s.category = i.category)
+    and (s.location is null or s.location = i.location)
+    and (s.date_from is null or i.date_occurred >= s.date_from)
+    and (s.date_to is null or i.date_occurred <= s.date_to)
+    and (
+      s.search is null
+      or i.search_vector @@ websearch_to_tsquery('english', s.search)
+      or s.search <% (i.title || ' ' || i.description)
+    )
+    and not exists (
+      select 1 from saved_search_alerts a where a.saved_search_id = s.id and a.item_id = target
+    );
+$$;
+
+-- Pickup release at the desk (releaseItem in src/lib/admin-actions.ts). use_pickup_attempt()
+-- spends one of the claim's code attempts before the code is checked, so parallel guesses
+-- cannot get past the lockout; it returns the attempts used so far, or null when none are left.
+create or replace function use_pickup_attempt(target uuid, max_attempts integer)
+returns integer
+language sql
+as $$
+  update claims set pickup_attempts = pickup_attempts + 1
+  where id = target and status = 'approved' and released_at is null and deleted_at is null
+    and pickup_code_hash is not null and pickup_attempts < max_attempts
+  returning pickup_attempts;
+$$;
+
+-- Marks the claim released and its item returned in one transaction. Returns the item's id, or
+-- null when the claim was already released; raises (undoing the claim update) when the item is
+-- not awaiting pickup.
+create or replace function release_claim(target uuid, staff_id uuid, staff_name text)
+returns uuid
+language plpgsql
+as $$
+declare
+  released_item uuid;
+begin
+  update claims
+  set pickup_code_hash = null, released_at = now(), released_by = staff_id, released_by_name = staff_name
+  where id = target and status = 'approved' and released_at is null and deleted_at is null
+  returning item_id into released_item;
+
+  if released_item is null then
+    return null;
+  end if;
+
+  update items set status = 'returned'
+  where id = released_item and status = 'awaiting_pickup' and deleted_at is null;
+
+  if not found then
+    raise exception 'Item % is not awaiting pickup', released_item;
+  end if;
+
+  return released_item;
+end;
+$$;
+
+revoke execute on function use_pickup_attempt(uuid, integer) from public, anon, authenticated;
+revoke execute on function release_claim(uuid, uuid, text) from public, anon, authenticated;
+
+-- item_matches, email_outbox, audit_events, custody_events, claim_proofs, rate_limit_events, saved_searches, saved_search_alerts and staff have no policies: they are only readable with the service role key
 
-create policy "Admin can update claims" on claims
-  for update using (true);
-
-insert into items (title, description, category, type, location, date_occurred, time_occurred, contact_email, image_url, status, security_answer) values
-  ('Blue Hydroflask Water Bottle', 'A blue 32oz Hydroflask water bottle with stickers on it. Has a dent on the bottom.', 'accessories', 'found', 'Cafeteria', '2026-02-14', '12:30 PM', 'finder@school.edu', null, 'approved', 'stickers of mountains and a sunrise'),
-  ('TI-84 Calculator', 'Black TI-84 Plus CE graphing calculator. Name is written on the back in silver sharpie.', 'electronics', 'found', 'Science Lab', '2026-02-13', '3:15 PM', 'mathteacher@school.edu', null, 'approved', 'name written in silver sharpie on back'),
-  ('Red Nike Hoodie', 'Lost my red Nike hoodie, size medium. It has a small tear near the left pocket.', 'clothing', 'lost', 'Gym / Locker Room', '2026-02-12', '4:00 PM', 'student1@school.edu', null, 'approved', 'small tear near left pocket'),
-  ('AirPods Pro Case', 'White AirPods Pro case with a blue silicone cover. Left in the library study room.', 'electronics', 'lost', 'Library', '2026-02-15', '2:00 PM', 'student2@school.edu', null, 'approved', 'blue silicone cover with initials "JM"'),
-  ('AP Biology Textbook', 'Campbell Biology 12th Edition. Has highlighting in chapters 1-5. My name is on the inside cover.', 'books', 'lost', 'Hallway - 2nd Floor', '2026-02-10', '11:00 AM', 'student3@school.edu', null, 'approved', 'yellow highlighting in chapters 1 through 5'),
-  ('Soccer Ball', 'Adidas soccer ball, size 5, slightly deflated. Was left near the bleachers after practice.', 'sports', 'found', 'Football Field', '2026-02-11', '5:30 PM', 'coach@school.edu', null, 'approved', 'adidas logo partially worn off'),
-  ('Car Keys with Lanyard', 'Set of car keys on a purple school lanyard. Found near the main entrance.', 'accessories', 'found', 'Main Office', '2026-02-16', '8:00 AM', 'security@school.edu', null, 'approved', 'purple lanyard with school logo'),
-  ('MacBook Charger', 'White 67W USB-C MacBook charger. Lost in the computer lab during 5th period.', 'electronics', 'lost', 'Computer Lab', '2026-02-15', '1:45 PM', 'student4@school.edu', null, 'pending', 'has a small piece of blue tape on the cable');
+-- Sample items have no answer fingerprint: it can only be computed by the app (it needs
+-- ANSWER_HASH_SECRET), so claims against them are shown as "No answer" in the dashboard.
+insert into items (title, description, category, type, location, date_occurred, time_occurred, contact_email, image_url, status) values
+  ('Blue Hydroflask Water Bottle', 'A blue 32oz Hydroflask water bottle with stickers on it. Has a dent on the bottom.', 'accessories', 'found', 'Cafeteria', '2026-02-14', '12:30 PM', 'finder@school.edu', null, 'listed'),
+  ('TI-84 Calculator', 'Black TI-84 Plus CE graphing calculator. Name is written on the back in silver sharpie.', 'electronics', 'found', 'Science Lab', '2026-02-13', '3:15 PM', 'mathteacher@school.edu', null, 'listed'),
+  ('Red Nike Hoodie', 'Lost my red Nike hoodie, size medium. It has a small tear near the left pocket.', 'clothing', 'lost', 'Gym / Locker Room', '2026-02-12', '4:00 PM', 'student1@school.edu', null, 'listed'),
+  ('AirPods Pro Case', 'White AirPods Pro case with a blue silicone cover. Left in the library study room.', 'electronics', 'lost', 'Library', '2026-02-15', '2:00 PM', 'student2@school.edu', null, 'listed'),
+  ('AP Biology Textbook', 'Campbell Biology 12th Edition. Has highlighting in chapters 1-5. My name is on the inside cover.', 'books', 'lost', 'Hallway - 2nd Floor', '2026-02-10', '11:00 AM', 'student3@school.edu', null, 'listed'),
+  ('Soccer Ball', 'Adidas soccer ball, size 5, slightly deflated. Was left near the bleachers after practice.', 'sports', 'found', 'Football Field', '2026-02-11', '5:30 PM', 'coach@school.edu', null, 'listed'),
+  ('Car Keys with Lanyard', 'Set of car keys on a purple school lanyard. Found near the main entrance.', 'accessories', 'found', 'Main Office', '2026-02-16', '8:00 AM', 'security@school.edu', null, 'listed'),
+  ('MacBook Charger', 'White 67W USB-C MacBook charger. Lost in the computer lab during 5th period.', 'electronics', 'lost', 'Computer Lab', '2026-02-15', '1:45 PM', 'student4@school.edu', null, 'pending');